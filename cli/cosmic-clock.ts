@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+// cosmic-clock — the web UI's clocks and ephemeris tables from the command line (same code: ../src/cosmicClock)
+//
+//   cosmic-clock                                        # every clock now, in the system time zone
+//   cosmic-clock --at 2021-02-18T20:44Z --body Mars --site "Jezero (Perseverance)"
+//   cosmic-clock --lon Mars=-5.5 --lon Moon=23.47 --tz UTC --json
+//   cosmic-clock --watch 500 --body Earth,Mars          # redraw live (Ctrl‑C to stop); with --json, one line per tick
+//   cosmic-clock ephemeris --from 2025-01-01 --to 2025-12-31 --step 7d --bodies Earth,Mars --site Mars:18.44,77.45 > mars.csv
+import { readFileSync } from "node:fs";
+import {
+  clockReadings, siteReadings, parseExportStep, modelRowsAt, ephemerisExport, ephemerisCSV, EXPORT_MAX_EPOCHS,
+  type ClockOptions, type ClockReadings, type ModelSource,
+} from "../src/cosmicClock";
+import { formatHMS24, MOONS, SOLAR_BODIES, SITE_BODIES, BUILTIN_SITES, parseSmallBodies, type Site, type SiteBody, type SmallBody } from "../src/astroCore";
+
+const USAGE = `Usage:
+  cosmic-clock [clocks] [options]      Print body clocks for an epoch
+  cosmic-clock ephemeris [options]     Print an ephemeris table over a range
+
+Clock options:
+  --at <ISO|now>          Epoch (UTC unless the time has an offset; default now)
+  --body <names>          Only these sections, in text and JSON (comma list: Earth, Mars, ${SOLAR_BODIES.map(b=>b.name).join(', ')}, ${Object.keys(MOONS).join(', ')})
+  --lon <Body=deg>        Clock longitude, °E (repeatable; defaults as in the web UI)
+  --lat <deg>             Earth latitude for sunrise/sunset (default New Delhi)
+  --tz <zone>             IANA zone for Earth civil time (default: system zone)
+  --site <site>           Built‑in site ("Gale", "Apollo 11") or Body:lat,lon (repeatable)
+  --json                  JSON instead of text (time scales and --site clocks always included)
+  --watch [ms]            Keep printing every ms (default 1000)
+
+Ephemeris options:
+  --from <ISO|now> --to <ISO>   Range (UTC)
+  --step <n unit>         min, h, d or sol (default 1d)
+  --bodies <names>        Comma list (default: all)
+  --source <model|kepler> Circular model or Keplerian elements (default model)
+  --small-bodies <file>   Also propagate these bodies (JSON, MPCORB.DAT or CometEls.txt)
+  --site <site>           Add this site's clocks to each epoch (repeatable)
+  --format <csv|json>     Output format (default csv; --json is --format json)`;
+
+class UsageError extends Error {}
+
+// ===== Arguments =====
+type Args = { command:'clocks'|'ephemeris'; values:Map<string,string[]>; flags:Set<string> };
+const VALUE_OPTIONS = ['at','body','lon','lat','tz','site','from','to','step','bodies','source','small-bodies','format'];
+const FLAG_OPTIONS = ['json','help'];
+function parseArgs(argv:string[]): Args {
+  const args:Args = { command:'clocks', values:new Map(), flags:new Set() };
+  const rest=[...argv];
+  if(rest[0]==='clocks' || rest[0]==='ephemeris') args.command=rest.shift() as Args['command'];
+  while(rest.length){
+    const token=rest.shift()!; const m=/^--([a-z-]+)(?:=(.*))?$/.exec(token);
+    if(!m) throw new UsageError(`unexpected argument "${token}"`);
+    const [,name,inline]=m;
+    if(name==='watch'){ args.values.set('watch',[inline ?? (rest[0] && /^\d+$/.test(rest[0])? rest.shift()! : '1000')]); continue; }
+    if(FLAG_OPTIONS.includes(name)){ args.flags.add(name); continue; }
+    if(!VALUE_OPTIONS.includes(name)) throw new UsageError(`unknown option --${name}`);
+    const value=inline ?? rest.shift(); if(value===undefined) throw new UsageError(`--${name} needs a value`);
+    args.values.set(name,[...args.values.get(name) ?? [],value]);
+  }
+  return args;
+}
+const last=(a:Args,name:string)=>a.values.get(name)?.at(-1);
+const list=(text:string)=>text.split(',').map(s=>s.trim()).filter(Boolean);
+// ISO 8601 in UTC unless it carries an offset ("2024-06-21", "2024-06-21T12:00", "2024-06-21T12:00+02:00"), or "now"
+function parseEpoch(text:string,option:string){
+  const t=text.trim(); if(t==='now') return Date.now();
+  const ms=Date.parse(/T.*(Z|[+-]\d{2}:?\d{2})$/i.test(t) || !t.includes('T')? t : `${t}Z`);
+  if(!Number.isFinite(ms)) throw new UsageError(`--${option} must be an ISO 8601 time or "now" (got "${text}")`);
+  return ms;
+}
+function parseNumber(text:string,option:string,min:number,max:number){
+  const v=Number(text); if(!Number.isFinite(v) || v<min || v>max) throw new UsageError(`--${option} must be a number from ${min} to ${max} (got "${text}")`);
+  return v;
+}
+// Longitudes are °E in −180…180; 180…360 wraps to the west
+const eastLon=(text:string,option:string)=>{ const v=parseNumber(text,option,-180,360); return v>180? v-360 : v; };
+const siteBody=(name:string)=>SITE_BODIES.find(b=>b.toLowerCase()===name.toLowerCase());
+// Built‑in site by a unique, case‑insensitive fragment of "Body/Name", or an ad hoc Body:lat,lon
+function parseSite(text:string): Site {
+  const m=/^([A-Za-z]+):\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)$/.exec(text.trim());
+  if(m){
+    const body=siteBody(m[1]); if(!body) throw new UsageError(`--site: no clocks for "${m[1]}" (one of ${SITE_BODIES.join(', ')})`);
+    const lat=parseNumber(m[2],'site latitude',-90,90), lon=eastLon(m[3],'site longitude');
+    return { id:`cli:${body}:${lat},${lon}`, body, name:`${lat}°, ${lon}°E`, lat, lon };
+  }
+  const q=text.trim().toLowerCase(), key=(s:Site)=>`${s.body}/${s.name}`.toLowerCase();
+  const hits=BUILTIN_SITES.filter(s=>key(s).includes(q)), exact=hits.find(s=>s.name.toLowerCase()===q || key(s)===q);
+  if(exact || hits.length===1) return exact ?? hits[0];
+  throw new UsageError(hits.length? `--site "${text}" matches ${hits.map(s=>`${s.body}/${s.name}`).join(', ')}` : `--site "${text}" is not a built‑in site (use Body:lat,lon)`);
+}
+function validTimeZone(tz:string){
+  try { new Intl.DateTimeFormat('en-GB',{timeZone:tz}); return tz; } catch { throw new UsageError(`--tz: unknown time zone "${tz}"`); }
+}
+
+// ===== Clocks =====
+type ClockRequest = { atMs:number; sections:string[]|null; tz:string; opts:ClockOptions; sites:Site[] };
+function clockRequest(a:Args): ClockRequest {
+  const lon:Partial<Record<SiteBody,number>>={}, moonLon:Record<string,number>={};
+  for(const item of a.values.get('lon') ?? []){
+    const m=/^([A-Za-z]+)=(.+)$/.exec(item); if(!m) throw new UsageError(`--lon must look like Body=deg (got "${item}")`);
+    const v=eastLon(m[2],'lon'), body=siteBody(m[1]), moon=Object.keys(MOONS).find(n=>n.toLowerCase()===m[1].toLowerCase());
+    if(body) lon[body]=v; else if(moon) moonLon[moon]=v; else throw new UsageError(`--lon: unknown body "${m[1]}"`);
+  }
+  const bodies=(a.values.get('body') ?? []).flatMap(list);
+  const known=['Earth','Mars',...SOLAR_BODIES.map(b=>b.name),...Object.keys(MOONS)];
+  const sections=bodies.length? bodies.map(b=>{ const k=known.find(n=>n.toLowerCase()===b.toLowerCase()); if(!k) throw new UsageError(`--body: unknown body "${b}"`); return k; }) : null;
+  const lat=last(a,'lat'), tz=validTimeZone(last(a,'tz') ?? Intl.DateTimeFormat().resolvedOptions().timeZone);
+  return {
+    atMs:parseEpoch(last(a,'at') ?? 'now','at'), sections, tz,
+    opts:{ tz, earthLat:lat===undefined? undefined : parseNumber(lat,'lat',-90,90), lon, moonLon },
+    sites:(a.values.get('site') ?? []).map(parseSite),
+  };
+}
+const deg=(v:number,d=1)=>`${v.toFixed(d)}°`;
+const lonText=(v:number)=>`lon ${v}°E`;
+const hhmm=(iso:string|null)=>iso===null? '—' : iso.slice(11,16)+'Z';
+// Text layout: one line per body (label column, then the same quantities as its web tiles)
+function formatClocks(ms:number,r:ClockReadings,sites:ReturnType<typeof siteReadings>,sections:string[]|null,tz:string){
+  const show=(name:string)=>!sections || sections.includes(name);
+  const row=(label:string,...cells:string[])=>`${label.padEnd(10)}${cells.join('  ')}`;
+  const t=r.timeScales, out=[`${new Date(ms).toISOString()}  JD ${t.jdUTC.toFixed(6)} UTC  JD ${t.jdTT.toFixed(6)} TT  MJD ${t.mjdUTC.toFixed(6)}  GMST ${formatHMS24(t.gmstHours)}`];
+  if(show('Earth')){
+    const e=r.earth;
+    out.push(row('Earth',`${e.civil} (${tz})`,`LMST ${e.lmst}`,`LAST ${e.last}`,`EoT ${e.eotMin.toFixed(2)} min`,lonText(e.lon)));
+    out.push(row('',`Sun alt ${deg(e.sun.altDeg)} az ${deg(e.sun.azDeg)}`,`rise ${hhmm(e.sun.rise.start)}`,`noon ${hhmm(e.sun.noon)}`,`set ${hhmm(e.sun.rise.end)}`,`lat ${deg(e.lat,4)}`));
+  }
+  if(show('Mars')){
+    const m=r.mars;
+    out.push(row('Mars',`MSD ${m.msd.toFixed(5)}`,`MTC ${m.mtc}`,`LMST ${m.lmst}`,`LTST ${m.ltst}`,`Sol ${m.sol}`,`MY ${m.marsYear}`,`Ls ${deg(m.Ls,2)} (${m.season.north})`,lonText(m.lon)));
+    for(const s of r.missions) out.push(row('',`${s.name}: Sol ${s.sol}`,`LMST ${s.lmst}`));
+  }
+  for(const b of SOLAR_BODIES){
+    if(!show(b.name)) continue;
+    const c=r[b.name.toLowerCase() as Lowercase<typeof b.name>];
+    const phase=c.phase? [`${c.phase.name} ${(c.phase.illuminated*100).toFixed(0)}% lit`] : [];
+    out.push(row(b.name,`LTST ${c.ltst}`,`0° LTST ${c.primeMeridian}`,(b.dayLabel ?? 'Solar day #').replace('#',`#${c.day}`),...phase,`subsolar ${deg(c.subsolar.latDeg,2)}, ${deg(c.subsolar.lonDeg,2)}E`,lonText(c.lon)));
+  }
+  for(const [name,m] of Object.entries(r.majorMoons)){
+    if(show(name)) out.push(row(name,`LTST ${m.ltst}`,`Rotation #${m.rotation}`,lonText(m.lon)));
+  }
+  if(sites.length){
+    out.push('Sites');
+    for(const s of sites) out.push(row('',`${s.body}/${s.name}`,...Object.entries(s.times).map(([k,v])=>`${k} ${v}`)));
+  }
+  return out.join('\n');
+}
+// JSON keeps the --body sections too: missions go with Mars, satellite configurations with their planet
+function jsonSections(r:ClockReadings,sections:string[]|null){
+  if(!sections) return r;
+  const show=(name:string)=>sections.includes(name), pick=<T,>(o:Record<string,T>)=>Object.fromEntries(Object.entries(o).filter(([k])=>show(k)));
+  const majorMoons=pick(r.majorMoons), satellites=pick(r.satellites);
+  return {
+    timeScales:r.timeScales,
+    ...(show('Earth')? { earth:r.earth } : {}),
+    ...(show('Mars')? { mars:r.mars, missions:r.missions } : {}),
+    ...Object.fromEntries(SOLAR_BODIES.filter(b=>show(b.name)).map(b=>[b.name.toLowerCase(),r[b.name.toLowerCase() as Lowercase<typeof b.name>]])),
+    ...(Object.keys(majorMoons).length? { majorMoons } : {}),
+    ...(Object.keys(satellites).length? { satellites } : {}),
+  };
+}
+function printClocks(req:ClockRequest,ms:number,json:boolean,pretty:boolean){
+  const r=clockReadings(ms,req.opts), sites=siteReadings(req.sites,ms);
+  return json? JSON.stringify({ utc:new Date(ms).toISOString(), ...jsonSections(r,req.sections), sites },null,pretty? 2 : undefined) : formatClocks(ms,r,sites,req.sections,req.tz);
+}
+// Live mode: the epoch advances with the wall clock from --at; text redraws in place, JSON streams one object per line
+function watchClocks(req:ClockRequest,intervalMs:number,json:boolean){
+  const start=Date.now();
+  const tick=()=>{
+    const ms=req.atMs+(Date.now()-start);
+    process.stdout.write(json? printClocks(req,ms,true,false)+'\n' : '\x1b[H\x1b[2J'+printClocks(req,ms,false,false)+'\n');
+  };
+  tick(); const timer=setInterval(tick,intervalMs);
+  process.on('SIGINT',()=>{ clearInterval(timer); process.exit(0); });
+}
+
+// ===== Ephemeris =====
+function ephemeris(a:Args){
+  const fromMs=parseEpoch(last(a,'from') ?? 'now','from'), to=last(a,'to');
+  if(to===undefined) throw new UsageError('ephemeris needs --to');
+  const toMs=parseEpoch(to,'to'); if(toMs<=fromMs) throw new UsageError('--to must be after --from');
+  const stepText=last(a,'step') ?? '1d', stepMs=parseExportStep(stepText);
+  if(stepMs===null || stepMs<60000) throw new UsageError(`--step must be at least one minute, e.g. 30min, 6h, 1d, 2sol (got "${stepText}")`);
+  const epochs=Math.floor((toMs-fromMs)/stepMs)+1;
+  if(epochs>EXPORT_MAX_EPOCHS) throw new UsageError(`${epochs} epochs requested; the limit is ${EXPORT_MAX_EPOCHS} — use a larger step or a shorter range.`);
+  const source=last(a,'source') ?? 'model'; if(source!=='model' && source!=='kepler') throw new UsageError('--source must be model or kepler');
+  const file=last(a,'small-bodies'); let small:SmallBody[]=[];
+  if(file!==undefined){
+    const parsed=parseSmallBodies(readFileSync(file,'utf8'));
+    if(parsed.errors.length) throw new UsageError(`${file}: ${parsed.errors.join('; ')}`);
+    small=parsed.bodies;
+  }
+  const rowsAt=modelRowsAt(source as ModelSource,small), names=rowsAt(fromMs).map(r=>r.name);
+  const bodies=(a.values.get('bodies') ?? []).flatMap(list).map(b=>{ const n=names.find(x=>x.toLowerCase()===b.toLowerCase()); if(!n) throw new UsageError(`--bodies: unknown body "${b}" (one of ${names.join(', ')})`); return n; });
+  const format=a.flags.has('json')? 'json' : last(a,'format') ?? 'csv'; if(format!=='csv' && format!=='json') throw new UsageError('--format must be csv or json');
+  const t=ephemerisExport(rowsAt,fromMs,toMs,stepMs,bodies.length? bodies : names,(a.values.get('site') ?? []).map(parseSite),source);
+  process.stdout.write(format==='csv'? ephemerisCSV(t) : JSON.stringify(t,null,2)+'\n');
+}
+
+// ===== Main =====
+function main(argv:string[]){
+  // The reader went away (`cosmic-clock --watch --json | head -n 5`, `… ephemeris | head`): stop quietly, as other pipeline tools do
+  process.stdout.on('error',(e:NodeJS.ErrnoException)=>{ if(e.code!=='EPIPE') throw e; process.exit(0); });
+  try {
+    const a=parseArgs(argv);
+    if(a.flags.has('help')){ console.log(USAGE); return; }
+    if(a.command==='ephemeris'){ ephemeris(a); return; }
+    const req=clockRequest(a), json=a.flags.has('json'), watch=last(a,'watch');
+    if(watch!==undefined) watchClocks(req,parseNumber(watch,'watch',100,86400000),json);
+    else console.log(printClocks(req,req.atMs,json,true));
+  } catch(e){
+    if(!(e instanceof UsageError) && !(e instanceof Error && 'code' in e)) throw e;
+    console.error(`cosmic-clock: ${e.message}`);
+    if(e instanceof UsageError) console.error('Try "cosmic-clock --help".');
+    process.exitCode=2;
+  }
+}
+main(process.argv.slice(2));
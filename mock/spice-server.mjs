@@ -0,0 +1,85 @@
+// Local stand-in for the SPICE backend: GET /api/spice/state?utc=ISO&bodies=Mercury,Venus,...
+// Serves heliocentric ECLIPJ2000 state vectors (km, km/s) from JPL Keplerian elements, so the
+// SPICE data path can be developed offline. Not an ephemeris — positions are good to ~arcminutes.
+//
+//   npm run mock:spice                         # http://localhost:8787 (Vite proxies /api here)
+//   SPICE_MOCK_DELAY_MS=300 npm run mock:spice # simulate network latency
+//   SPICE_MOCK_FAIL=Neptune npm run mock:spice # report a per-body error for these bodies
+//   ...&frame=J2000                            # equatorial frame instead of ECLIPJ2000
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.SPICE_MOCK_PORT ?? 8787);
+const DELAY_MS = Number(process.env.SPICE_MOCK_DELAY_MS ?? 0);
+const FAIL = new Set((process.env.SPICE_MOCK_FAIL ?? '').split(',').map(s => s.trim()).filter(Boolean));
+
+const AU_KM = 149597870.7;
+const J2000 = 2451545.0;
+const TT_MINUS_UTC_S = 69.184; // 37 leap seconds + 32.184 s (good since 2017)
+const OBLIQUITY_DEG = 23.43928;
+
+// JPL "Approximate Positions of the Planets", Table 1 (1800–2050): [value at J2000, rate per century]
+const ELEMENTS = {
+  Mercury: { a: [0.38709927, 0.00000037], e: [0.20563593, 0.00001906], i: [7.00497902, -0.00594749], L: [252.25032350, 149472.67411175], peri: [77.45779628, 0.16047689], node: [48.33076593, -0.12534081] },
+  Venus:   { a: [0.72333566, 0.00000390], e: [0.00677672, -0.00004107], i: [3.39467605, -0.00078890], L: [181.97909950, 58517.81538729], peri: [131.60246718, 0.00268329], node: [76.67984255, -0.27769418] },
+  Earth:   { a: [1.00000261, 0.00000562], e: [0.01671123, -0.00004392], i: [-0.00001531, -0.01294668], L: [100.46457166, 35999.37244981], peri: [102.93768193, 0.32327364], node: [0, 0] },
+  Mars:    { a: [1.52371034, 0.00001847], e: [0.09339410, 0.00007882], i: [1.84969142, -0.00813131], L: [-4.55343205, 19140.30268499], peri: [-23.94362959, 0.44441088], node: [49.55953891, -0.29257343] },
+  Jupiter: { a: [5.20288700, -0.00011607], e: [0.04838624, -0.00013253], i: [1.30439695, -0.00183714], L: [34.39644051, 3034.74612775], peri: [14.72847983, 0.21252668], node: [100.47390909, 0.20469106] },
+  Saturn:  { a: [9.53667594, -0.00125060], e: [0.05386179, -0.00050991], i: [2.48599187, 0.00193609], L: [49.95424423, 1222.49362201], peri: [92.59887831, -0.41897216], node: [113.66242448, -0.28867794] },
+  Uranus:  { a: [19.18916464, -0.00196176], e: [0.04725744, -0.00004397], i: [0.77263783, -0.00242939], L: [313.23810451, 428.48202785], peri: [170.95427630, 0.40805281], node: [74.01692503, 0.04240589] },
+  Neptune: { a: [30.06992276, 0.00026291], e: [0.00859048, 0.00005105], i: [1.77004347, 0.00035372], L: [-55.12002969, 218.45945325], peri: [44.96476227, -0.32241464], node: [131.78422574, -0.00508664] },
+};
+
+const rad = d => d * Math.PI / 180;
+
+// Heliocentric ecliptic J2000 position (AU) at a TT Julian date
+function positionAU(name, jdTT) {
+  const T = (jdTT - J2000) / 36525;
+  const el = Object.fromEntries(Object.entries(ELEMENTS[name]).map(([k, [v, dv]]) => [k, v + dv * T]));
+  const M = rad(((el.L - el.peri) % 360 + 540) % 360 - 180);
+  let E = M;
+  for (let k = 0; k < 30; k++) { const dE = (E - el.e * Math.sin(E) - M) / (1 - el.e * Math.cos(E)); E -= dE; if (Math.abs(dE) < 1e-12) break; }
+  const xp = el.a * (Math.cos(E) - el.e), yp = el.a * Math.sqrt(1 - el.e * el.e) * Math.sin(E);
+  const w = rad(el.peri - el.node), O = rad(el.node), I = rad(el.i);
+  const cw = Math.cos(w), sw = Math.sin(w), cO = Math.cos(O), sO = Math.sin(O), cI = Math.cos(I), sI = Math.sin(I);
+  return [
+    (cw * cO - sw * sO * cI) * xp + (-sw * cO - cw * sO * cI) * yp,
+    (cw * sO + sw * cO * cI) * xp + (-sw * sO + cw * cO * cI) * yp,
+    (sw * sI) * xp + (cw * sI) * yp,
+  ];
+}
+
+// State vector in km and km/s (velocity by central difference over ±1 min)
+function state(name, jdTT, frame) {
+  const h = 1 / 1440;
+  const p = positionAU(name, jdTT), p0 = positionAU(name, jdTT - h), p1 = positionAU(name, jdTT + h);
+  let r = p.map(c => c * AU_KM), v = p1.map((c, k) => (c - p0[k]) * AU_KM / (2 * h * 86400));
+  if (frame === 'J2000') {
+    const ce = Math.cos(rad(OBLIQUITY_DEG)), se = Math.sin(rad(OBLIQUITY_DEG));
+    const toEq = ([x, y, z]) => [x, y * ce - z * se, y * se + z * ce];
+    r = toEq(r); v = toEq(v);
+  }
+  return { name, x_km: r[0], y_km: r[1], z_km: r[2], vx_km_s: v[0], vy_km_s: v[1], vz_km_s: v[2] };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  if (req.method !== 'GET' || url.pathname !== '/api/spice/state') return send(res, 404, { error: 'not found' });
+  const utcMs = Date.parse(url.searchParams.get('utc') ?? '');
+  if (!Number.isFinite(utcMs)) return send(res, 400, { error: 'utc must be an ISO 8601 timestamp' });
+  const frame = (url.searchParams.get('frame') ?? 'ECLIPJ2000').toUpperCase();
+  if (frame !== 'ECLIPJ2000' && frame !== 'J2000') return send(res, 400, { error: `unsupported frame ${frame}` });
+  const bodies = (url.searchParams.get('bodies') ?? '').split(',').map(s => s.trim()).filter(Boolean);
+  const jdTT = utcMs / 86400000 + 2440587.5 + TT_MINUS_UTC_S / 86400;
+  const states = bodies.map(name =>
+    FAIL.has(name) ? { name, error: 'mock: simulated failure' }
+      : ELEMENTS[name] ? state(name, jdTT, frame)
+      : { name, error: `no ephemeris for ${name}` });
+  setTimeout(() => send(res, 200, { epochUTC: new Date(utcMs).toISOString(), frame, center: 'SUN', states }), DELAY_MS);
+});
+
+server.listen(PORT, () => console.log(`SPICE mock listening on http://localhost:${PORT}/api/spice/state`));
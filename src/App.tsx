@@ -1,5 +1,10 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { motion } from "framer-motion";
+import { jdTTfromUTC, jdUTCfromTT, ttMinusUtcSeconds, timeScalesAt, jdToCalendarString, parseTimeScale, CONVERTIBLE_SCALES, type ConvertibleScale } from "./timeScales";
+import { mod, toRad, toDeg, pad2, formatHMS24, formatDuration, parseHHMM, equationOfTimeMinutes, julianDateUTC, earthMeanSolarTimeHours, earthApparentSolarTimeHours, solarAltAzDeg, type SunEventPair, type SunDay, earthSunDay, MSD_EPOCH_JDTT, MARS_SOL_DAYS, marsSolDate, marsMTC_Hours, marsLMST_Hours, marsSun, marsLTST_Hours, MARS_TROPICAL_YEAR_DAYS, marsYear, marsYearStartJDTT, marsSeasons, AU_KM, C_KM_S, type BodyKind, bodyDef, getOrbitalBodies, type SolarBody, SOLAR_BODIES, SOLAR_DAY_HOURS, MOONS, keplerOrbitPointsAU, jdTTatMs, msFromJdTT, type OrbitalRowMeta, type OrbitalRow, circularRows, keplerRows, type SmallBody, bodyLabel, conicPeriodDays, conicOrbitPointsAU, smallBodyRows, parseSmallBodies, exportSmallBodies, type EarthView, earthViewRows, PLANET_EVENT_LABELS, type PlanetEvent, findPlanetEvents, rotationCount, sinD, IAU_ROTATION, OBLIQUITY_J2000_DEG, subsolarPoint, localSolarTimeHours, moonPhase, moonPhaseTime, moonPhaseBracket, type SatelliteSystem, SATELLITE_SYSTEMS, saturnRingOpeningDeg, satelliteConfig, type SatEventKind, SAT_EVENT_LABELS, satEventFlags, satelliteEventsFrom, type SiteBody, SITE_BODIES, type Site, BUILTIN_SITES, normLon, siteLocalTimes, type Mission, BUILTIN_MISSIONS, localMsd, missionSol, utcMsAtLocalMsd } from "./astroCore";
+import { runReferenceChecks } from "./referenceChecks";
+import { type AlarmSpec, type EarthSunEvent, EARTH_SUN_EVENT_LABELS, MOON_PHASE_ALARM_LABELS, type Alarm, isAlarmSpec, alarmRepeatLabel, describeAlarm, nextAlarmMs, type AlarmTick, alarmSweep } from "./alarms";
+import { DEFAULT_SITE_LON, DEFAULT_EARTH_LAT, civilDateTime, solarClock, clockReadings, siteReadings, EXPORT_MAX_EPOCHS, type ExportStepUnit, EXPORT_STEP_MS, ephemerisExport, ephemerisCSV } from "./cosmicClock";
 
 // Cosmic Clock — Multi‑Body (v1.3 PRE‑PROD)
 // PRE‑PROD upgrades:
@@ -8,46 +13,30 @@ import { motion } from "framer-motion";
 // • Minimalist (x,y) heliocentric mini‑plot per planet
 // • NEW: Interactive Heliocentric Map (pan/zoom) synced with animation
 // • NEW: SPICE data‑source hooks (backend stub + graceful fallback to circular model)
+// • NEW: Keplerian elements data source (elliptical orbits, true r and vis‑viva speed)
+// • NEW: Time‑travel master clock (date picker, scrubber, ±1 h/sol/yr steps, return to live)
+// • NEW: Historical leap seconds + ΔT (./timeScales) for every UTC → TT conversion
+// • NEW: Time scales panel (UTC/TAI/TT/TDB/GPS/Unix/JD/MJD/MSD/GMST/LST) + universal converter
+// • NEW: Mars24 true solar time (LTST, EoT), Ls, Mars Year, seasons and heliocentric distance
+// • NEW: IAU WGCCRE rotation models → real subsolar longitude and local solar time for Moon/planets/moons
+// • NEW: Earth site latitude → solar noon, sunrise/sunset, twilights, day length, Sun alt/az, day/night bar
+// • NEW: Lunar ephemeris (Meeus ch. 47): phase, illumination, age, phase glyph, next principal phases
+// • NEW: Galilean & Saturnian moon strip diagrams with transits, shadows, occultations and eclipses (next 48 h)
+// • NEW: Geometry from Earth — distance, light time, elongation, phase angle, magnitude, solar‑conjunction flag
+// • NEW: Planetary event finder (oppositions, conjunctions, elongations, apsides, stations) with map markers
+// • NEW: Ephemeris provider layer — bucketed SPICE cache, de‑duplicated/cancellable requests, poll interval, per‑frame map only
+// • NEW: SPICE 3D state vectors (validated, per‑body fallback, frame/center), status panel, local mock + dev proxy
+// • NEW: Site catalog (landing sites + custom, JSON import/export), pinned multi‑site clocks, persisted longitudes
+// • NEW: Mission sol clocks (Perseverance/Curiosity/InSight + custom) and Earth↔Mars shift planner with window overlap
+// • NEW: Cross‑body alarms (Mars LTST/LMST, lunar/planet solar time, Earth Sun events, moon events, mission sols, Moon phases) with notifications, snooze, repeat
+// • NEW: Export dialog — ephemeris CSV/JSON (range, step, bodies, site clocks), .ics feeds (sols, Moon phases, events), copy snapshot JSON
+// • NEW: Permalinks — the URL hash reproduces the whole view (frozen epoch, speed, zone, longitudes, source, map); saved personal defaults
+// • NEW: Map — touch pan/pinch, zoom at cursor, log‑radial scale, fading past/future trails, keyboard, body details card with centre/follow
+// • NEW: Typed body registry drives tiles (now Saturn/Uranus/Neptune), tables and map; user dwarf planets/asteroids/comets from JSON or MPC elements
+// • NEW: Headless astro core (./astroCore) + published reference checks shared by the Vitest suite and the self‑check button
+// • NEW: `cosmic-clock` CLI + Node API (./cosmicClock): the same clock readings and ephemeris tables, also behind the app's snapshot and export
 // • Light theme only, auto‑wrapping tiles, soft grey background
 
-// ===== Utilities =====
-const mod = (n: number, m: number) => ((n % m) + m) % m;
-const toRad = (deg: number) => (deg * Math.PI) / 180;
-const toDeg = (rad: number) => (rad * 180) / Math.PI;
-function pad2(n: number) { return n < 10 ? `0${n}` : `${n}`; }
-function formatHMS(hoursFloat: number) {
-  const h = mod(Math.floor(hoursFloat), 24);
-  const m = Math.floor(mod(hoursFloat * 60, 60));
-  const s = Math.floor(mod(hoursFloat * 3600, 60));
-  return `${pad2(h)}:${pad2(m)}:${pad2(s)}`;
-}
-function formatHMS24(hoursFloat: number) { return formatHMS(mod(hoursFloat, 24)); }
-function dayOfYearUTC(d: Date) { const start = Date.UTC(d.getUTCFullYear(), 0, 1); return Math.floor((d.getTime() - start)/86400000)+1; }
-
-// Equation of Time (minutes)
-function equationOfTimeMinutes(date: Date) {
-  const N = dayOfYearUTC(date);
-  const hours = date.getUTCHours() + date.getUTCMinutes()/60 + date.getUTCSeconds()/3600;
-  const gamma = (2 * Math.PI/365)*(N-1+(hours-12)/24);
-  return 229.18*(0.000075+0.001868*Math.cos(gamma)-0.032077*Math.sin(gamma)-0.014615*Math.cos(2*gamma)-0.040849*Math.sin(2*gamma));
-}
-function julianDateUTC(date: Date) { return date.getTime()/86400000+2440587.5; }
-
-// Earth
-function earthMeanSolarTimeHours(dateUTC: Date, lon: number) {
-  const utcHours = dateUTC.getUTCHours()+dateUTC.getUTCMinutes()/60+dateUTC.getUTCSeconds()/3600+dateUTC.getUTCMilliseconds()/3.6e6;
-  return mod(utcHours+lon/15,24);
-}
-function earthApparentSolarTimeHours(dateUTC: Date, lon: number) {
-  return mod(earthMeanSolarTimeHours(dateUTC,lon)+equationOfTimeMinutes(dateUTC)/60,24);
-}
-
-// Mars
-const TAI_MINUS_UTC_SECONDS=37; const TT_MINUS_UTC_SECONDS=TAI_MINUS_UTC_SECONDS+32.184;
-function marsSolDate(jdUTC:number){ const jdTT=jdUTC+TT_MINUS_UTC_SECONDS/86400; return (jdTT-2405522.0028779)/1.0274912517; }
-function marsMTC_Hours(msd:number){ return mod((msd%1)*24,24); }
-function marsLMST_Hours(msd:number,lon:number){ return mod(marsMTC_Hours(msd)+lon/15,24); }
-
 // Simple sparklines
 function ProgressSpark({value}:{value:number}){ const pct=Math.max(0,Math.min(1,value))*100; return (<div className="w-full h-2 rounded-full bg-slate-200 overflow-hidden"><div className="h-full bg-indigo-600" style={{width:`${pct}%`}}/></div>); }
 function EotSparkline({year}:{year:number}){
@@ -57,20 +46,50 @@ function EotSparkline({year}:{year:number}){
   return (<svg width={w} height={h} viewBox={`0 0 ${w} ${h}`} className="block"><rect x={0} y={0} width={w} height={h} className="fill-white"/><path d={path} className="stroke-indigo-600" fill="none" strokeWidth={1.5}/></svg>);
 }
 
-// Orbital (circular model)
-const AU_KM=149597870.7;const J2000_TT=2451545.0;
-function getOrbitalBodies(){return[
-  {name:'Mercury',a_AU:.38709893,T_days:87.969},
-  {name:'Venus',a_AU:.72333199,T_days:224.701},
-  {name:'Earth',a_AU:1.00000011,T_days:365.256},
-  {name:'Mars',a_AU:1.52366231,T_days:686.98},
-  {name:'Jupiter',a_AU:5.20336301,T_days:4332.589},
-  {name:'Saturn',a_AU:9.53707032,T_days:10759.22},
-  {name:'Uranus',a_AU:19.19126393,T_days:30688.5},
-  {name:'Neptune',a_AU:30.06896348,T_days:60182},
-];}
-function meanLongitudeDeg(jdTT:number,T:number){return mod(((jdTT-J2000_TT)/T)*360,360)}
-function speedKmPerSec(a:number,T:number){return(2*Math.PI*a*AU_KM)/T/86400}
+function MarsEotSparkline({yearStartJDTT,jdTT}:{yearStartJDTT:number;jdTT:number}){
+  const w=240,h=32;
+  // The curve depends only on the Mars year, not on the page tick
+  const path=useMemo(()=>{
+    const n=240; const points:number[]=[]; for(let k=0;k<=n;k++){ points.push(marsSun(yearStartJDTT+(k/n)*MARS_TROPICAL_YEAR_DAYS).eotHours*60); }
+    const min=Math.min(...points), max=Math.max(...points); const range=max-min || 1;
+    return points.map((v,i)=>{ const x=(i/n)*w; const y=h-((v-min)/range)*h; return `${i===0?'M':'L'}${x.toFixed(1)},${y.toFixed(1)}`; }).join(' ');
+  },[yearStartJDTT]);
+  const cx=Math.max(0,Math.min(1,(jdTT-yearStartJDTT)/MARS_TROPICAL_YEAR_DAYS))*w;
+  return (<svg width={w} height={h} viewBox={`0 0 ${w} ${h}`} className="block"><rect x={0} y={0} width={w} height={h} className="fill-white"/><path d={path} className="stroke-rose-600" fill="none" strokeWidth={1.5}/><line x1={cx} y1={0} x2={cx} y2={h} stroke="#64748b" strokeDasharray="2 2"/></svg>);
+}
+
+function SunTable({sun,tz}:{sun:SunDay;tz:string}){
+  const fmt=(ms:number|null)=> ms===null? '—' : new Intl.DateTimeFormat('en-GB',{timeZone:tz,hour:'2-digit',minute:'2-digit',hour12:false}).format(new Date(ms));
+  const note=(p:SunEventPair)=> p.state==='up'? 'Sun stays above' : p.state==='down'? 'Sun stays below' : '';
+  const rows:Array<[string,SunEventPair]>=[['Sunrise / sunset',sun.rise],['Civil twilight',sun.civil],['Nautical twilight',sun.nautical],['Astronomical twilight',sun.astronomical]];
+  const dl=Math.round(sun.dayLengthMin);
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        <tr className="border-b border-slate-100"><td className="py-0.5 text-slate-600">Solar noon</td><td className="tabular-nums">{fmt(sun.noon)}</td></tr>
+        {rows.map(([label,p])=> (
+          <tr key={label} className="border-b border-slate-100"><td className="py-0.5 text-slate-600">{label}</td><td className="tabular-nums">{p.state==='normal'? `${fmt(p.start)} – ${fmt(p.end)}` : note(p)}</td></tr>
+        ))}
+        <tr><td className="py-0.5 text-slate-600">Day length</td><td className="tabular-nums">{pad2(Math.floor(dl/60))}h {pad2(dl%60)}m{sun.rise.state==='up'? ' (polar day)' : sun.rise.state==='down'? ' (polar night)' : ''}</td></tr>
+      </tbody>
+    </table>
+  );
+}
+
+// 24 h day/night bar over the local mean solar day (midnight → midnight), coloured by solar altitude
+function DayNightBar({date,lat,lon}:{date:Date;lat:number;lon:number}){
+  const n=144; const w=240,h=14;
+  const dayStart=useMemo(()=>{ const local=new Date(date.getTime()+lon*240000); return Date.UTC(local.getUTCFullYear(),local.getUTCMonth(),local.getUTCDate())-lon*240000; },[date,lon]);
+  const cells=useMemo(()=>Array.from({length:n},(_,k)=>solarAltAzDeg(new Date(dayStart+(k+0.5)*86400000/n),lat,lon).alt),[dayStart,lat,lon]);
+  const fill=(alt:number)=> alt>-0.833? '#fde68a' : alt>-6? '#93c5fd' : alt>-12? '#3b82f6' : alt>-18? '#1e3a8a' : '#0f172a';
+  const x=((date.getTime()-dayStart)/86400000)*w;
+  return (
+    <svg width={w} height={h+4} viewBox={`0 0 ${w} ${h+4}`} className="block">
+      {cells.map((alt,k)=> <rect key={k} x={(k/n)*w} y={2} width={w/n+0.5} height={h} fill={fill(alt)}/>)}
+      <line x1={x} y1={0} x2={x} y2={h+4} stroke="#e11d48" strokeWidth={2}/>
+    </svg>
+  );
+}
 
 // CSS keyframes for orbit animation
 const SpinStyle = () => (<style>{`@keyframes spin{from{transform:rotate(0)}to{transform:rotate(360deg)}}`}</style>);
@@ -101,86 +120,382 @@ function OrbitRing({thetaDeg,periodDays,animate,speedScale=1}:{thetaDeg:number;p
     </div>
   )}
 
-// ===== SPICE backend hooks (stub + graceful fallback) =====
-// Expected backend endpoint (example): GET /api/spice/state?utc=ISO&bodies=Mercury,Venus,...
-// Response per body: { name, x_km, y_km, z_km, vx_km_s, vy_km_s, vz_km_s, epochUTC }
-// Convert to AU + angle; if request fails, we fallback to circular model.
-async function fetchSpiceStates(epochISO: string, bodies: string[]): Promise<Record<string, { x_AU:number; y_AU:number; thetaDeg:number; v_kms:number }>> {
-  const url = `/api/spice/state?utc=${encodeURIComponent(epochISO)}&bodies=${encodeURIComponent(bodies.join(','))}`;
-  try {
-    const res = await fetch(url, { method: 'GET' });
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
-    const json = await res.json() as Array<{name:string;x_km:number;y_km:number;vx_km_s:number;vy_km_s:number}>;
-    const out: Record<string, any> = {};
-    for (const row of json) {
-      const x_AU = row.x_km / AU_KM; const y_AU = row.y_km / AU_KM;
-      const thetaDeg = mod(toDeg(Math.atan2(y_AU, x_AU)), 360);
-      const v_kms = Math.hypot(row.vx_km_s, row.vy_km_s);
-      out[row.name] = { x_AU, y_AU, thetaDeg, v_kms };
-    }
-    return out;
-  } catch (e) {
-    // No backend in PRE‑PROD preview — let caller handle fallback
-    throw e;
+// ===== SPICE backend hooks (validated responses + graceful fallback) =====
+// Expected backend endpoint: GET /api/spice/state?utc=ISO&bodies=Mercury,Venus,...
+// Response: { epochUTC, frame, center, states:[{ name, x_km, y_km, z_km, vx_km_s, vy_km_s, vz_km_s } | { name, error }] }
+// (a bare array of states is accepted too). frame: ECLIPJ2000 or J2000 (rotated to ecliptic); center: SUN.
+// Bodies that are missing, malformed or report an error fall back to the Keplerian model individually.
+// Local stand‑in: `npm run mock:spice` (mock/spice-server.mjs), proxied by the Vite dev server.
+type SpiceState = { x_AU:number; y_AU:number; z_AU:number; v_kms:number };
+type SpiceResponse = { epochUTC:string|null; frame:string; center:string; states:Record<string,SpiceState>; errors:Record<string,string> };
+const SPICE_FRAMES = ['ECLIPJ2000','J2000'] as const;
+const SPICE_CENTERS = ['SUN','10'];
+function parseSpiceResponse(json: unknown, bodies: string[]): SpiceResponse {
+  const isObj=(v:unknown): v is Record<string,unknown> => typeof v==='object' && v!==null && !Array.isArray(v);
+  const env=Array.isArray(json)? { states:json } : json;
+  if(!isObj(env) || !Array.isArray(env.states)) throw new Error('SPICE: response is neither an array nor { states: [...] }');
+  const str=(v:unknown,fallback:string)=> typeof v==='string' && v? v : fallback;
+  const out: SpiceResponse = { epochUTC:typeof env.epochUTC==='string'? env.epochUTC : null, frame:str(env.frame,'ECLIPJ2000'), center:str(env.center,'SUN'), states:{}, errors:{} };
+  for (const row of env.states) {
+    if(!isObj(row) || typeof row.name!=='string'){ continue; }
+    const name=row.name;
+    if(typeof row.error==='string'){ out.errors[name]=row.error; continue; }
+    const frame=str(row.frame,out.frame).toUpperCase(), center=str(row.center,out.center).toUpperCase();
+    if(!(SPICE_FRAMES as readonly string[]).includes(frame)){ out.errors[name]=`unsupported frame ${frame}`; continue; }
+    if(!SPICE_CENTERS.includes(center)){ out.errors[name]=`unsupported center ${center}`; continue; }
+    const keys=['x_km','y_km','z_km','vx_km_s','vy_km_s','vz_km_s'] as const;
+    const bad=keys.filter(k=>typeof row[k]!=='number' || !Number.isFinite(row[k]));
+    if(bad.length){ out.errors[name]=`missing/invalid ${bad.join(', ')}`; continue; }
+    const [x,y,z,vx,vy,vz]=keys.map(k=>row[k] as number);
+    // J2000 (equatorial) → ecliptic J2000
+    const ce=Math.cos(toRad(OBLIQUITY_J2000_DEG)), se=Math.sin(toRad(OBLIQUITY_J2000_DEG));
+    const [ye,ze]=frame==='J2000'? [y*ce+z*se, -y*se+z*ce] : [y,z];
+    out.states[name]={ x_AU:x/AU_KM, y_AU:ye/AU_KM, z_AU:ze/AU_KM, v_kms:Math.hypot(vx,vy,vz) };
   }
+  for (const b of bodies) if(!out.states[b] && !out.errors[b]) out.errors[b]='missing from response';
+  return out;
+}
+async function fetchSpiceStates(epochISO: string, bodies: string[], signal?: AbortSignal): Promise<SpiceResponse> {
+  const url = `/api/spice/state?utc=${encodeURIComponent(epochISO)}&bodies=${encodeURIComponent(bodies.join(','))}`;
+  const res = await fetch(url, { method: 'GET', signal });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return parseSpiceResponse(await res.json(), bodies);
 }
 
-// Circular model rows builder
-type OrbitalRow = { name:string; a:number; theta:number; x:number; y:number; v:number; T:number };
-function circularRows(jdTT:number): OrbitalRow[] {
-  return getOrbitalBodies().map(b=>{
-    const theta=meanLongitudeDeg(jdTT,b.T_days); const v=speedKmPerSec(b.a_AU,b.T_days);
-    const x=b.a_AU*Math.cos(toRad(theta)); const y=b.a_AU*Math.sin(toRad(theta));
-    return { name:b.name, a:b.a_AU, theta, x, y, v, T:b.T_days };
-  });
+// ===== Ephemeris providers =====
+// rowsAt() is synchronous and never fails (model/Kepler fallback), so render code never waits on the network.
+type EphemerisStatus = 'idle'|'loading'|'ok'|'error';
+type EphemerisDiagnostics = { latencyMs:number|null; epochUTC:string|null; frame:string|null; center:string|null; fallback:string[]; errors:Record<string,string>; requests:number; failures:number; lastError:string|null };
+type EphemerisProvider = { rowsAt:(ms:number)=>OrbitalRow[]; prefetch:(ms:number,rate:number)=>void; statusAt:(ms:number)=>EphemerisStatus; diagnostics?:(ms:number)=>EphemerisDiagnostics; dispose:()=>void };
+function modelProvider(build:(jdTT:number)=>OrbitalRow[]): EphemerisProvider {
+  return { rowsAt:ms=>build(jdTTatMs(ms)), prefetch:()=>{}, statusAt:()=>'idle', dispose:()=>{} };
+}
+// SPICE: one request per time bucket (epoch = bucket start, in sim time). Buckets are pollMs of sim time at 1× and
+// grow by powers of two with the playback rate, so the backend sees ≈ one request per poll interval at any speed.
+// The cache stores SPICE − Kepler residuals; frames interpolate the residual between buckets and add it to the
+// Keplerian position at the frame epoch, which stays smooth even when buckets span days.
+type SpiceBucket = { residual:Record<string,{ x:number; y:number; z:number; v:number }>; meta:OrbitalRowMeta; errors:Record<string,string> };
+const SPICE_CACHE_MAX=512;
+function createSpiceProvider(pollMs:number,onChange:()=>void): EphemerisProvider {
+  const cache=new Map<string,SpiceBucket>(); const inflight=new Map<string,AbortController>(); const failed=new Map<string,number>();
+  const bodies=getOrbitalBodies().map(b=>b.name);
+  let bucketMs=pollMs, lastRequest=0;
+  const diag={ latencyMs:null as number|null, requests:0, failures:0, lastError:null as string|null };
+  const key=(k:number,size:number)=>`${size}:${k}`;
+  const request=(k:number,size:number)=>{
+    const id=key(k,size); const epochMs=k*size; const epochISO=new Date(epochMs).toISOString(); const ctrl=new AbortController(); inflight.set(id,ctrl);
+    const t0=performance.now(); lastRequest=Date.now(); diag.requests++;
+    fetchSpiceStates(epochISO,bodies,ctrl.signal)
+      .then(resp=>{
+        diag.latencyMs=performance.now()-t0; diag.lastError=null;
+        const base=keplerRows(jdTTatMs(epochMs)); const residual:SpiceBucket['residual']={};
+        for(const b of base){ const m=resp.states[b.name]; if(m) residual[b.name]={ x:m.x_AU-b.x, y:m.y_AU-b.y, z:m.z_AU-b.z, v:m.v_kms-b.v }; }
+        cache.set(id,{ residual, meta:{ source:'spice', frame:resp.frame, center:resp.center, epochUTC:resp.epochUTC ?? epochISO }, errors:resp.errors }); failed.delete(id);
+        if(cache.size>SPICE_CACHE_MAX) cache.delete(cache.keys().next().value!);
+      })
+      .catch((e:unknown)=>{ if(!ctrl.signal.aborted){ failed.set(id,Date.now()); diag.failures++; diag.lastError=e instanceof Error? e.message : String(e); } })
+      .finally(()=>{ if(inflight.get(id)===ctrl) inflight.delete(id); if(!ctrl.signal.aborted) onChange(); });
+  };
+  const bracket=(ms:number)=>{ const k=Math.floor(ms/bucketMs); return { k, f:(ms-k*bucketMs)/bucketMs, a:cache.get(key(k,bucketMs)), b:cache.get(key(k+1,bucketMs)) }; };
+  return {
+    rowsAt(ms){
+      const base=keplerRows(jdTTatMs(ms)); const {f,a,b}=bracket(ms);
+      return base.map(row=>{
+        const ra=a?.residual[row.name], rb=b?.residual[row.name]; if(!ra && !rb) return row;
+        const lerp=(p:'x'|'y'|'z'|'v')=> ra&&rb? ra[p]+(rb[p]-ra[p])*f : (ra??rb)![p];
+        const x=row.x+lerp('x'), y=row.y+lerp('y'), z=row.z+lerp('z');
+        return { ...row, x, y, z, r:Math.hypot(x,y,z), theta:mod(toDeg(Math.atan2(y,x)),360), v:row.v+lerp('v'), meta:(ra? a : b)!.meta };
+      });
+    },
+    prefetch(ms,rate){
+      bucketMs=pollMs*2**Math.ceil(Math.log2(Math.max(1,Math.abs(rate))));
+      const k=Math.floor(ms/bucketMs); const wanted=rate<0? [k,k+1,k-1] : [k,k+1]; const ids=wanted.map(i=>key(i,bucketMs));
+      // Cancel requests for buckets the clock has left (seek, rate change)
+      for(const [id,ctrl] of inflight) if(!ids.includes(id)){ ctrl.abort(); inflight.delete(id); }
+      wanted.forEach((i,n)=>{
+        const id=ids[n]; if(cache.has(id) || inflight.has(id)) return;
+        const f=failed.get(id); if(f!==undefined && Date.now()-f<pollMs) return;
+        if(n>0 && Date.now()-lastRequest<pollMs/2) return; // neighbour buckets are throttled; the current one is fetched at once
+        request(i,bucketMs);
+      });
+    },
+    statusAt(ms){
+      const {k,a,b}=bracket(ms);
+      if(a||b) return 'ok';
+      return inflight.has(key(k,bucketMs))? 'loading' : failed.has(key(k,bucketMs))? 'error' : 'loading';
+    },
+    diagnostics(ms){
+      const {a,b}=bracket(ms); const cur=a??b;
+      return { ...diag, epochUTC:cur?.meta.epochUTC ?? null, frame:cur?.meta.frame ?? null, center:cur?.meta.center ?? null,
+        fallback:bodies.filter(n=>!a?.residual[n] && !b?.residual[n]), errors:cur?.errors ?? {} };
+    },
+    dispose(){ for(const ctrl of inflight.values()) ctrl.abort(); inflight.clear(); },
+  };
+}
+
+// ===== Small bodies: user list (elements, propagation and parsers in ./astroCore) =====
+const SMALL_BODIES_STORAGE_KEY='cosmic-clock.bodies.v1';
+const SMALL_BODIES_MAX=50;
+function withSmallBodies(p:EphemerisProvider,bodies:SmallBody[]): EphemerisProvider {
+  return bodies.length? { ...p, rowsAt:ms=>[...p.rowsAt(ms),...smallBodyRows(bodies,jdTTatMs(ms))] } : p;
+}
+function loadSmallBodies(): SmallBody[] {
+  try { const raw=localStorage.getItem(SMALL_BODIES_STORAGE_KEY); return raw? parseSmallBodies(raw).bodies.slice(0,SMALL_BODIES_MAX) : []; } catch { return []; }
+}
+const mergeSmallBodies=(list:SmallBody[],incoming:SmallBody[])=>{
+  const key=(b:SmallBody)=>b.name.toLowerCase(); const fresh=new Map(incoming.map(b=>[key(b),b]));
+  return [...list.filter(b=>!fresh.has(key(b))),...fresh.values()];
+};
+// Paste or import elements; list and remove the user bodies
+function SmallBodiesPanel({bodies,onChange}:{bodies:SmallBody[];onChange:(b:SmallBody[])=>void}){
+  const [text,setText]=useState('');
+  const [msg,setMsg]=useState<{ok:boolean;text:string;errors:string[]}|null>(null);
+  const add=(input:string)=>{
+    const {bodies:found,errors}=parseSmallBodies(input); const next=mergeSmallBodies(bodies,found);
+    if(next.length>SMALL_BODIES_MAX){ setMsg({ok:false,text:`Up to ${SMALL_BODIES_MAX} bodies — remove some first.`,errors}); return; }
+    if(found.length) onChange(next);
+    if(found.length && !errors.length) setText('');
+    setMsg({ ok:found.length>0 && !errors.length, text:found.length? `Added ${found.map(b=>b.name).join(', ')}.` : 'Nothing added.', errors });
+  };
+  const upload=(file:File)=>{ file.text().then(add).catch((e:unknown)=>setMsg({ok:false,text:`Import failed: ${e instanceof Error? e.message : String(e)}`,errors:[]})); };
+  const date=(jd:number)=>new Date((jd-2440587.5)*86400000).toISOString().slice(0,10);
+  const btn="rounded-xl border border-slate-300 px-3 py-1.5 text-sm bg-white hover:bg-slate-50 disabled:opacity-50";
+  return (
+    <div>
+      <textarea className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2 font-mono text-xs" rows={4} value={text} onChange={e=>setText(e.target.value)} spellCheck={false}
+        placeholder={'JSON: [{ "name": "…", "kind": "dwarf|asteroid|comet", "a": …, "e": …, "i": …, "node": …, "peri": …, "M": …, "epoch": "YYYY-MM-DD" }] — or q + tp instead of a, M, epoch\nMPC: paste MPCORB.DAT or CometEls.txt lines unchanged'}/>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <button onClick={()=>add(text)} disabled={!text.trim()} className={btn}>Add bodies</button>
+        <label className={`${btn} cursor-pointer`}>Import file
+          <input type="file" accept="application/json,.json,.txt,.dat" className="hidden" onChange={e=>{ const f=e.target.files?.[0]; if(f) upload(f); e.target.value=''; }}/>
+        </label>
+        <button onClick={()=>downloadText('cosmic-clock-bodies.json',exportSmallBodies(bodies),'application/json')} disabled={!bodies.length} className={btn}>Export JSON</button>
+      </div>
+      {msg && <div className={`mt-2 text-xs ${msg.ok?'text-emerald-700':'text-rose-700'}`}>{msg.text}{msg.errors.length>0 && <ul className="mt-1 list-disc pl-5">{msg.errors.map(e=> <li key={e}>{e}</li>)}</ul>}</div>}
+      {bodies.length>0 && (
+        <table className="mt-3 w-full text-sm">
+          <thead><tr className="text-left text-slate-600 border-b border-slate-300 bg-slate-50"><th className="py-1 pr-3">Name</th><th className="py-1 pr-3">Kind</th><th className="py-1 pr-3">q (AU)</th><th className="py-1 pr-3">e</th><th className="py-1 pr-3">i (°)</th><th className="py-1 pr-3">Period</th><th className="py-1 pr-3">Perihelion (TT)</th><th></th></tr></thead>
+          <tbody>
+            {bodies.map(b=>{ const T=conicPeriodDays(b.elements); return (
+              <tr key={b.name} className="border-b border-slate-200">
+                <td className="py-1 pr-3">{b.label}</td><td className="py-1 pr-3">{b.kind}</td>
+                <td className="py-1 pr-3 tabular-nums">{b.elements.q.toFixed(4)}</td><td className="py-1 pr-3 tabular-nums">{b.elements.e.toFixed(5)}</td><td className="py-1 pr-3 tabular-nums">{b.elements.i.toFixed(3)}</td>
+                <td className="py-1 pr-3 tabular-nums">{Number.isFinite(T)? `${(T/365.25).toFixed(2)} yr` : 'open orbit'}</td><td className="py-1 pr-3 tabular-nums">{date(b.elements.tp)}</td>
+                <td className="py-1 text-right"><button onClick={()=>onChange(bodies.filter(x=>x!==b))} className="text-xs text-slate-500 hover:text-rose-700">Remove</button></td>
+              </tr>
+            ); })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+// Interactive heliocentric map (SVG; pointer/touch pan + pinch/wheel zoom at the cursor, log‑radial mode, trails, body details); optional event markers (click to jump the clock)
+type MapMarker = { id:string; label:string; x:number; y:number; active:boolean };
+type MapView = { zoom:number; x:number; y:number; log:boolean; sel:string|null; follow:boolean }; // x/y: pan offset in px (relative to the followed body while following)
+const DEFAULT_MAP_VIEW: MapView = { zoom:1, x:0, y:0, log:false, sel:null, follow:false };
+const MAP_ZOOM_MIN=0.2, MAP_ZOOM_MAX=50;
+const MAP_SIZE=420;
+const MAP_LOG_R0_AU=0.3; // log‑radial knee: ~linear inside r0, logarithmic beyond
+const MAP_TRAIL_SAMPLES=48;
+const MAP_TRAIL_DAYS=[0,30,90,365,1825];
+type MapCamera = { zoom:number; x:number; y:number };
+// Map glyph per registry kind (radius px, fill)
+const MAP_GLYPHS: Record<BodyKind,{ r:number; fill:string }> = {
+  planet:{ r:4, fill:'#1e40af' }, moon:{ r:3, fill:'#64748b' }, dwarf:{ r:3.5, fill:'#7c3aed' }, asteroid:{ r:2.5, fill:'#78716c' }, comet:{ r:3, fill:'#0d9488' },
+};
+// Zoom by k keeping the point (mx,my) (SVG px) fixed on screen — also holds for the follow‑relative offset
+function zoomCameraAt(c:MapCamera,k:number,mx:number,my:number): MapCamera {
+  const zoom=Math.min(MAP_ZOOM_MAX,Math.max(MAP_ZOOM_MIN,c.zoom*k)), f=zoom/c.zoom;
+  return { zoom, x:(mx-MAP_SIZE/2)*(1-f)+c.x*f, y:(my-MAP_SIZE/2)*(1-f)+c.y*f };
+}
+// Local solar time(s) on a map body at lonE, by its registry clock: Earth mean solar time, Mars24, IAU rotation for the rest
+function bodyLocalTimes(name:string,ms:number,lonE:number): Array<[string,string]> {
+  const clock=bodyDef(name)?.clock; if(!clock) return [];
+  if(clock==='earth') return [['LMST',formatHMS24(earthMeanSolarTimeHours(new Date(ms),lonE))]];
+  if(clock==='mars'){ const msd=marsSolDate(ms/86400000+2440587.5); return [['LMST',formatHMS24(marsLMST_Hours(msd,lonE))],['LTST',formatHMS24(marsLTST_Hours(msd,lonE,jdTTatMs(ms)))]]; }
+  const sub=subsolarPoint(name,jdTTatMs(ms)); return sub? [['LTST',formatHMS24(localSolarTimeHours(name,sub.lonDeg,lonE))]] : [];
+}
+
+function MapBodyCard({row,rows,timeMs,lon,follow,onFollow,onCentre,onClose}:{row:OrbitalRow;rows:OrbitalRow[];timeMs:number;lon:number;follow:boolean;onFollow:(v:boolean)=>void;onCentre:()=>void;onClose:()=>void}){
+  const earth=rows.find(r=>r.name==='Earth'); const delta=earth && row!==earth? Math.hypot(row.x-earth.x,row.y-earth.y,row.z-earth.z) : null;
+  const item=(label:string,value:string)=> <div key={label} className="flex justify-between gap-3"><span className="text-slate-600">{label}</span><span className="tabular-nums">{value}</span></div>;
+  const el=row.el, c=row.small?.elements;
+  return (
+    <div className="w-full max-w-xs rounded-2xl border border-slate-300 bg-white p-3 shadow-sm text-xs">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div><div className="text-sm font-semibold text-slate-900">{row.small? row.small.label : row.name}</div><div className="text-slate-500">{row.small? `${row.small.kind} — two‑body elements` : row.meta? `SPICE (${row.meta.frame})` : el? 'Keplerian elements' : 'Circular model'}</div></div>
+        <button className="text-slate-500 hover:text-slate-900" title="Close (Esc)" onClick={onClose}>✕</button>
+      </div>
+      <div className="space-y-0.5">
+        {item('Heliocentric distance',`${row.r.toFixed(4)} AU`)}
+        {item('Speed',`${row.v.toFixed(2)} km/s`)}
+        {item('Ecliptic longitude',`${row.theta.toFixed(2)}°`)}
+        {item('Period',Number.isFinite(row.T)? `${row.T.toFixed(1)} d` : 'open orbit')}
+        {delta!==null && item('Distance from Earth',`${delta.toFixed(4)} AU`)}
+        {delta!==null && item('Light time (one‑way)',formatDuration(delta*AU_KM/C_KM_S/3600))}
+        {bodyLocalTimes(row.name,timeMs,lon).map(([k,v])=>item(`${k} @ ${lon}°E`,v))}
+      </div>
+      {el && <div className="mt-2 grid grid-cols-3 gap-x-3 gap-y-0.5 tabular-nums text-slate-700">
+        <span>a {el.a.toFixed(4)}</span><span>e {el.e.toFixed(4)}</span><span>i {el.i.toFixed(3)}°</span>
+        <span>Ω {mod(el.node,360).toFixed(2)}°</span><span>ϖ {mod(el.peri,360).toFixed(2)}°</span><span>L {mod(el.L,360).toFixed(2)}°</span>
+      </div>}
+      {c && <div className="mt-2 grid grid-cols-3 gap-x-3 gap-y-0.5 tabular-nums text-slate-700">
+        <span>q {c.q.toFixed(4)}</span><span>e {c.e.toFixed(4)}</span><span>i {c.i.toFixed(3)}°</span>
+        <span>Ω {c.node.toFixed(2)}°</span><span>ω {c.peri.toFixed(2)}°</span><span>Tp {new Date((c.tp-2440587.5)*86400000).toISOString().slice(0,10)}</span>
+      </div>}
+      <div className="mt-2 flex items-center gap-2">
+        <button className="rounded-lg border border-slate-300 px-2 py-0.5 bg-white hover:bg-slate-50" onClick={onCentre}>Centre</button>
+        <label className="flex items-center gap-1 text-slate-700"><input type="checkbox" checked={follow} onChange={e=>onFollow(e.target.checked)}/>Follow (F)</label>
+      </div>
+    </div>
+  );
 }
 
-// Interactive heliocentric map (SVG, pan/zoom)
-function HeliocentricMap({rows}:{rows:OrbitalRow[]}){
+function HeliocentricMap({rows,rowsAt,timeMs,markers=[],onMarker,initialView=DEFAULT_MAP_VIEW,onView,siteLon={}}:{rows:OrbitalRow[];rowsAt?:(ms:number)=>OrbitalRow[];timeMs:number;markers?:MapMarker[];onMarker?:(id:string)=>void;initialView?:MapView;onView?:(v:MapView)=>void;siteLon?:Partial<Record<string,number>>}){
   const svgRef = useRef<SVGSVGElement|null>(null);
-  const [zoom,setZoom]=useState(1); const [offset,setOffset]=useState({x:0,y:0});
-  const maxA = Math.max(...rows.map(r=>r.a), 1);
-  const size = 420; const pad = 16; const baseScale = (size/2 - pad) / (maxA*1.1);
-  const scale = baseScale * zoom;
-  const toPx = (xAU:number)=> size/2 + offset.x + xAU*scale;
-  const toPy = (yAU:number)=> size/2 + offset.y - yAU*scale;
-
-  // interactions
+  const [cam,setCam]=useState<MapCamera>({ zoom:initialView.zoom, x:initialView.x, y:initialView.y });
+  const [logScale,setLogScale]=useState(initialView.log);
+  const [selected,setSelected]=useState<string|null>(initialView.sel);
+  const [follow,setFollow]=useState(initialView.follow);
+  const [trail,setTrail]=useState({ past:90, future:0 });
+  // Report the view once interaction settles (permalink/preferences), not on every drag event
+  useEffect(()=>{ if(!onView) return; const id=setTimeout(()=>onView({ ...cam, log:logScale, sel:selected, follow }),300); return ()=>clearTimeout(id); },[cam, logScale, selected, follow, onView]);
+
+  const size=MAP_SIZE, R=size/2-16;
+  const maxR=Math.max(...rows.filter(r=>!r.small).map(r=>r.a), 1)*1.1; // planets set the scale; small bodies may reach far beyond
+  // Ecliptic x/y (AU) → px from the Sun at zoom 1; log mode compresses radius so the inner planets stay readable with Neptune in frame
+  const project=(x:number,y:number)=>{
+    if(!logScale) return { x:x*R/maxR, y:y*R/maxR };
+    const r=Math.hypot(x,y); if(r===0) return { x:0, y:0 };
+    const k=R*Math.log1p(r/MAP_LOG_R0_AU)/Math.log1p(maxR/MAP_LOG_R0_AU)/r; return { x:x*k, y:y*k };
+  };
+  const selRow=rows.find(r=>r.name===selected);
+  const followP=follow && selRow? project(selRow.x,selRow.y) : null;
+  const off=followP? { x:cam.x-followP.x*cam.zoom, y:cam.y+followP.y*cam.zoom } : cam;
+  const toScreen=(x:number,y:number)=>{ const p=project(x,y); return { x:size/2+off.x+p.x*cam.zoom, y:size/2+off.y-p.y*cam.zoom }; };
+  const pathOf=(pts:Array<{x:number;y:number}>)=>pts.map((p,i)=>{ const s=toScreen(p.x,p.y); return `${i===0?'M':'L'}${s.x.toFixed(1)},${s.y.toFixed(1)}`; }).join(' ');
+
+  const setFollowing=(v:boolean)=>{
+    if(!selRow) return;
+    if(v){ setCam(c=>({...c,x:0,y:0})); } else { setCam(c=>({...c,x:off.x,y:off.y})); }
+    setFollow(v);
+  };
+  const centre=()=>{ if(!selRow) return; const p=project(selRow.x,selRow.y); setFollow(false); setCam(c=>({...c,x:-p.x*c.zoom,y:p.y*c.zoom})); };
+  const select=(name:string|null)=>{ setSelected(name); if(!name) setFollow(false); };
+
+  // Pointer interactions: one pointer pans, two pinch‑zoom about their midpoint, wheel zooms at the cursor
+  const dragMoved=useRef(false);
   useEffect(()=>{
     const svg = svgRef.current; if(!svg) return;
-    let dragging=false; let lx=0, ly=0;
-    const onWheel=(e:WheelEvent)=>{ e.preventDefault(); const factor = e.deltaY>0? 0.9 : 1.1; setZoom(z=>Math.min(20,Math.max(0.2,z*factor))); };
-    const onDown=(e:MouseEvent)=>{ dragging=true; lx=e.clientX; ly=e.clientY; };
-    const onMove=(e:MouseEvent)=>{ if(!dragging) return; const dx=e.clientX-lx, dy=e.clientY-ly; lx=e.clientX; ly=e.clientY; setOffset(o=>({x:o.x+dx,y:o.y+dy})); };
-    const onUp=()=>{ dragging=false; };
-    svg.addEventListener('wheel', onWheel, { passive:false }); svg.addEventListener('mousedown', onDown);
-    window.addEventListener('mousemove', onMove); window.addEventListener('mouseup', onUp);
-    return ()=>{ svg.removeEventListener('wheel', onWheel as any); svg.removeEventListener('mousedown', onDown as any); window.removeEventListener('mousemove', onMove as any); window.removeEventListener('mouseup', onUp as any); };
+    const pts=new Map<number,{x:number;y:number}>(); let downAt={x:0,y:0};
+    const local=(e:{clientX:number;clientY:number})=>{ const b=svg.getBoundingClientRect(); return { x:(e.clientX-b.left)*MAP_SIZE/b.width, y:(e.clientY-b.top)*MAP_SIZE/b.height }; };
+    const onWheel=(e:WheelEvent)=>{ e.preventDefault(); const m=local(e); setCam(c=>zoomCameraAt(c,e.deltaY>0? 0.9 : 1/0.9,m.x,m.y)); };
+    const onDown=(e:PointerEvent)=>{ const p=local(e); pts.set(e.pointerId,p); if(pts.size===1){ downAt=p; dragMoved.current=false; } };
+    const onMove=(e:PointerEvent)=>{
+      const prev=pts.get(e.pointerId); if(!prev) return; const cur=local(e); pts.set(e.pointerId,cur);
+      if(pts.size===1){
+        setCam(c=>({...c,x:c.x+cur.x-prev.x,y:c.y+cur.y-prev.y}));
+        if(Math.hypot(cur.x-downAt.x,cur.y-downAt.y)>4) dragMoved.current=true;
+      } else if(pts.size===2){
+        const other=[...pts].find(([id])=>id!==e.pointerId)![1];
+        const d0=Math.hypot(prev.x-other.x,prev.y-other.y), d1=Math.hypot(cur.x-other.x,cur.y-other.y);
+        const m0={x:(prev.x+other.x)/2,y:(prev.y+other.y)/2}, m1={x:(cur.x+other.x)/2,y:(cur.y+other.y)/2};
+        setCam(c=>{ const z=zoomCameraAt(c,d0>0? d1/d0 : 1,m0.x,m0.y); return {...z,x:z.x+m1.x-m0.x,y:z.y+m1.y-m0.y}; });
+        dragMoved.current=true;
+      }
+    };
+    const onUp=(e:PointerEvent)=>{ pts.delete(e.pointerId); };
+    svg.addEventListener('wheel', onWheel, { passive:false }); svg.addEventListener('pointerdown', onDown);
+    window.addEventListener('pointermove', onMove); window.addEventListener('pointerup', onUp); window.addEventListener('pointercancel', onUp);
+    return ()=>{ svg.removeEventListener('wheel', onWheel); svg.removeEventListener('pointerdown', onDown); window.removeEventListener('pointermove', onMove); window.removeEventListener('pointerup', onUp); window.removeEventListener('pointercancel', onUp); };
   },[]);
+  const onKey=(e:React.KeyboardEvent)=>{
+    const step=e.shiftKey? 80 : 20; const names=rows.map(r=>r.name);
+    const cycle=(d:number)=>select(names[mod((selected? names.indexOf(selected) : d>0? -1 : 0)+d,names.length)]);
+    const keys:Record<string,()=>void>={
+      ArrowLeft:()=>setCam(c=>({...c,x:c.x+step})), ArrowRight:()=>setCam(c=>({...c,x:c.x-step})), ArrowUp:()=>setCam(c=>({...c,y:c.y+step})), ArrowDown:()=>setCam(c=>({...c,y:c.y-step})),
+      '+':()=>setCam(c=>zoomCameraAt(c,1.25,size/2,size/2)), '=':()=>setCam(c=>zoomCameraAt(c,1.25,size/2,size/2)), '-':()=>setCam(c=>zoomCameraAt(c,0.8,size/2,size/2)),
+      '0':()=>{ setFollow(false); setCam({ zoom:1, x:0, y:0 }); }, l:()=>setLogScale(v=>!v), f:()=>setFollowing(!follow), c:centre,
+      n:()=>cycle(1), p:()=>cycle(-1), Escape:()=>select(null),
+    };
+    const fn=keys[e.key.length===1? e.key.toLowerCase() : e.key]; if(fn){ e.preventDefault(); fn(); }
+  };
+
+  // Trails: samples on a grid aligned to absolute time, so they are recomputed only when the grid advances
+  const windowMs=(trail.past+trail.future)*86400000; const stepMs=windowMs/MAP_TRAIL_SAMPLES;
+  const bucket=stepMs? Math.floor(timeMs/stepMs) : 0;
+  const trails=useMemo(()=>{
+    if(!rowsAt || !stepMs) return null;
+    const out:Record<string,Array<{x:number;y:number;t:number}>>={};
+    for(let k=-Math.ceil(trail.past*86400000/stepMs); k<=Math.ceil(trail.future*86400000/stepMs)+1; k++){
+      const t=(bucket+k)*stepMs; for(const r of rowsAt(t)) (out[r.name] ??= []).push({ x:r.x, y:r.y, t });
+    }
+    return out;
+  },[rowsAt, bucket, stepMs, trail.past, trail.future]);
+  const trailSegments=(name:string)=>{
+    const pts=trails?.[name]; if(!pts) return null;
+    return pts.slice(1).map((b,i)=>{
+      const a=pts[i]; const tm=(a.t+b.t)/2; const past=tm<=timeMs;
+      const f=past? (timeMs-tm)/(trail.past*86400000) : (tm-timeMs)/(trail.future*86400000); if(!(f<=1)) return null;
+      const s0=toScreen(a.x,a.y), s1=toScreen(b.x,b.y);
+      return <line key={i} x1={s0.x} y1={s0.y} x2={s1.x} y2={s1.y} stroke={past?'#2563eb':'#0d9488'} strokeOpacity={(past?0.7:0.5)*(1-f)} strokeWidth={1.5} strokeDasharray={past? undefined : '3 2'}/>;
+    });
+  };
 
+  const sun=toScreen(0,0), axis=maxR/1.1;
+  const onBodyClick=(name:string)=>{ if(!dragMoved.current) select(name===selected? null : name); };
   return (
-    <svg ref={svgRef} width={size} height={size} className="rounded-2xl border border-slate-300 bg-slate-50">
-      {/* grid */}
-      <defs>
-        <pattern id="grid" width="20" height="20" patternUnits="userSpaceOnUse">
-          <path d="M 20 0 L 0 0 0 20" fill="none" stroke="#e2e8f0" strokeWidth="1" />
-        </pattern>
-      </defs>
-      <rect x={0} y={0} width={size} height={size} fill="url(#grid)" />
-      {/* axes */}
-      <line x1={toPx(-maxA)} y1={toPy(0)} x2={toPx(maxA)} y2={toPy(0)} stroke="#94a3b8" strokeDasharray="4 3" />
-      <line x1={toPx(0)} y1={toPy(-maxA)} x2={toPx(0)} y2={toPy(maxA)} stroke="#94a3b8" strokeDasharray="4 3" />
-      {/* Sun */}
-      <circle cx={toPx(0)} cy={toPy(0)} r={5} fill="#f59e0b" stroke="#b45309" />
-      {/* Orbits & planets */}
-      {rows.map((r)=> (
-        <g key={r.name}>
-          <circle cx={toPx(0)} cy={toPy(0)} r={r.a*scale} fill="none" stroke="#cbd5e1" />
-          <circle cx={toPx(r.x)} cy={toPy(r.y)} r={4} fill="#1e40af" />
-          <text x={toPx(r.x)+6} y={toPy(r.y)+3} fontSize="10" fill="#334155">{r.name}</text>
-        </g>
-      ))}
-    </svg>
+    <div className="flex flex-wrap items-start gap-3">
+      <div className="w-full max-w-[420px]">
+        <svg ref={svgRef} viewBox={`0 0 ${size} ${size}`} className="w-full h-auto touch-none select-none rounded-2xl border border-slate-300 bg-slate-50 focus:outline-none focus:ring-2 focus:ring-sky-400" tabIndex={0} onKeyDown={onKey}
+          aria-label="Heliocentric map. Arrows pan, plus/minus zoom, 0 resets, L toggles log scale, N/P select bodies, C centres, F follows, Escape clears the selection.">
+          {/* grid */}
+          <defs>
+            <pattern id="grid" width="20" height="20" patternUnits="userSpaceOnUse">
+              <path d="M 20 0 L 0 0 0 20" fill="none" stroke="#e2e8f0" strokeWidth="1" />
+            </pattern>
+          </defs>
+          <rect x={0} y={0} width={size} height={size} fill="url(#grid)" />
+          {/* axes */}
+          {(()=>{ const a=toScreen(-axis,0), b=toScreen(axis,0), c=toScreen(0,-axis), d=toScreen(0,axis); return <>
+            <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#94a3b8" strokeDasharray="4 3" />
+            <line x1={c.x} y1={c.y} x2={d.x} y2={d.y} stroke="#94a3b8" strokeDasharray="4 3" />
+          </>; })()}
+          {/* Sun */}
+          <circle cx={sun.x} cy={sun.y} r={5} fill="#f59e0b" stroke="#b45309" />
+          {/* Orbits, trails & bodies (glyph by registry kind; comets get an anti‑sunward tail) */}
+          {rows.map((r)=>{ const p=toScreen(r.x,r.y); const sel=r.name===selected; const g=MAP_GLYPHS[r.small?.kind ?? bodyDef(r.name)?.kind ?? 'planet']; const path=r.small && conicOrbitPointsAU(r.small.elements); return (
+            <g key={r.name}>
+              {path
+                ? <path d={pathOf(path.pts)+(path.closed? ' Z' : '')} fill="none" stroke="#cbd5e1" strokeDasharray={r.small?.kind==='comet'? '4 2' : undefined} />
+                : r.el
+                ? <path d={pathOf(keplerOrbitPointsAU(r.el))+' Z'} fill="none" stroke="#cbd5e1" />
+                : <circle cx={sun.x} cy={sun.y} r={project(r.a,0).x*cam.zoom} fill="none" stroke="#cbd5e1" />}
+              {trailSegments(r.name)}
+              {r.small?.kind==='comet' && (()=>{ const d=Math.hypot(p.x-sun.x,p.y-sun.y) || 1; const len=Math.min(18,6+12/Math.max(0.3,r.r)); return <line x1={p.x} y1={p.y} x2={p.x+(p.x-sun.x)/d*len} y2={p.y+(p.y-sun.y)/d*len} stroke="#5eead4" strokeWidth={2} strokeLinecap="round"/>; })()}
+              {sel && <circle cx={p.x} cy={p.y} r={8} fill="none" stroke="#0ea5e9" strokeWidth={2}/>}
+              <circle cx={p.x} cy={p.y} r={g.r} fill={sel?'#0369a1':g.fill} />
+              <circle cx={p.x} cy={p.y} r={11} fill="transparent" className="cursor-pointer" onClick={()=>onBodyClick(r.name)}><title>{r.small? r.small.label : r.name}</title></circle>
+              <text x={p.x+6} y={p.y+3} fontSize="10" fill="#334155" className="pointer-events-none">{r.name}</text>
+            </g>
+          ); })}
+          {/* Event markers */}
+          {markers.map(m=>{ const {x:px,y:py}=toScreen(m.x,m.y), s=m.active?6:4; return (
+            <path key={m.id} d={`M${px},${py-s} L${px+s},${py} L${px},${py+s} L${px-s},${py} Z`} fill={m.active?'#e11d48':'#fda4af'} stroke="#9f1239" strokeWidth={0.75}
+              className="cursor-pointer" onClick={()=>{ if(!dragMoved.current) onMarker?.(m.id); }}><title>{m.label}</title></path>
+          ); })}
+        </svg>
+        <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-slate-700">
+          <label className="flex items-center gap-1"><input type="checkbox" checked={logScale} onChange={e=>setLogScale(e.target.checked)}/>Log radial scale (L)</label>
+          <label className="flex items-center gap-1">Trail past<select className="rounded-lg border border-slate-300 bg-white px-1 py-0.5" value={trail.past} onChange={e=>setTrail(t=>({...t,past:Number(e.target.value)}))}>{MAP_TRAIL_DAYS.map(d=> <option key={d} value={d}>{d? `${d} d` : 'off'}</option>)}</select></label>
+          <label className="flex items-center gap-1">future<select className="rounded-lg border border-slate-300 bg-white px-1 py-0.5" value={trail.future} onChange={e=>setTrail(t=>({...t,future:Number(e.target.value)}))}>{MAP_TRAIL_DAYS.map(d=> <option key={d} value={d}>{d? `${d} d` : 'off'}</option>)}</select></label>
+          <button className="rounded-lg border border-slate-300 px-2 py-0.5 bg-white hover:bg-slate-50" onClick={()=>{ setFollow(false); setCam({ zoom:1, x:0, y:0 }); }}>Reset view (0)</button>
+        </div>
+      </div>
+      {selRow && <MapBodyCard row={selRow} rows={rows} timeMs={timeMs} lon={siteLon[selRow.name] ?? 0} follow={follow} onFollow={setFollowing} onCentre={centre} onClose={()=>select(null)}/>}
+    </div>
   );
 }
 
@@ -195,7 +510,10 @@ function OrbitalGrid({rows,animate,speedScale}:{rows:OrbitalRow[];animate:boolea
             <th className="py-2 pr-3">θ (deg)</th>
             <th className="py-2 pr-3">x (AU)</th>
             <th className="py-2 pr-3">y (AU)</th>
+            <th className="py-2 pr-3">z (AU)</th>
+            <th className="py-2 pr-3">r (AU)</th>
             <th className="py-2 pr-3">v (km/s)</th>
+            <th className="py-2 pr-3">Source</th>
             <th className="py-2 pr-3">Mini‑plot</th>
             <th className="py-2 pr-3">Orbit</th>
           </tr>
@@ -203,14 +521,100 @@ function OrbitalGrid({rows,animate,speedScale}:{rows:OrbitalRow[];animate:boolea
         <tbody>
           {rows.map(r=> (
             <tr key={r.name} className="border-b border-slate-200">
-              <td className="py-1 pr-3">{r.name}</td>
-              <td className="py-1 pr-3 tabular-nums">{r.a.toFixed(6)}</td>
+              <td className="py-1 pr-3">{r.small? r.small.label : r.name}</td>
+              <td className="py-1 pr-3 tabular-nums">{Number.isFinite(r.a)? r.a.toFixed(6) : '∞'}</td>
               <td className="py-1 pr-3 tabular-nums">{r.theta.toFixed(1)}</td>
               <td className="py-1 pr-3 tabular-nums">{r.x.toFixed(3)}</td>
               <td className="py-1 pr-3 tabular-nums">{r.y.toFixed(3)}</td>
+              <td className="py-1 pr-3 tabular-nums">{r.z.toFixed(3)}</td>
+              <td className="py-1 pr-3 tabular-nums">{r.r.toFixed(4)}</td>
               <td className="py-1 pr-3 tabular-nums">{r.v.toFixed(2)}</td>
+              <td className="py-1 pr-3 text-xs text-slate-600" title={r.meta?`epoch ${r.meta.epochUTC}`:undefined}>{r.meta? `SPICE ${r.meta.frame}/${r.meta.center}` : r.small? 'Elements (user)' : r.el? 'Kepler' : 'Circular'}</td>
               <td className="py-1 pr-3"><MiniPlot xAU={r.x} yAU={r.y}/></td>
-              <td className="py-1 pr-3"><OrbitRing thetaDeg={r.theta} periodDays={r.T} animate={animate} speedScale={speedScale}/></td>
+              <td className="py-1 pr-3"><OrbitRing thetaDeg={r.theta} periodDays={r.T} animate={animate && Number.isFinite(r.T)} speedScale={speedScale}/></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// SPICE connection status: latency, epoch and frame of the bucket in use, bodies served by the model instead
+function SpiceStatusPanel({status,diag}:{status:EphemerisStatus;diag:EphemerisDiagnostics}){
+  const items:Array<[string,string]>=[
+    ['Status',status==='ok'?'connected':status==='loading'?'loading…':'unavailable — Keplerian fallback'],
+    ['Last latency',diag.latencyMs===null?'—':`${Math.round(diag.latencyMs)} ms`],
+    ['Epoch (UTC)',diag.epochUTC ?? '—'],
+    ['Frame / center',diag.frame? `${diag.frame} / ${diag.center}` : '—'],
+    ['Requests / failures',`${diag.requests} / ${diag.failures}`],
+    ['Model fallback',diag.fallback.length? diag.fallback.join(', ') : 'none'],
+  ];
+  const errs=Object.entries(diag.errors);
+  return (
+    <div className="mb-3 rounded-2xl border border-slate-300 bg-slate-50 p-3 text-xs">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-1">
+        {items.map(([k,v])=> <div key={k} className="flex justify-between gap-3 border-b border-slate-200 py-0.5"><span className="text-slate-600">{k}</span><span className="tabular-nums text-right break-all">{v}</span></div>)}
+      </div>
+      {diag.lastError && <div className="mt-2 text-rose-700">Last error: {diag.lastError}</div>}
+      {errs.length>0 && <ul className="mt-2 text-amber-800">{errs.map(([b,e])=> <li key={b}>{b}: {e}</li>)}</ul>}
+    </div>
+  );
+}
+
+// Map + table on their own animation frame clock; the rest of the page ticks at PAGE_TICK_MS
+function OrbitalViews({provider,anchor,playing,rate,markers,onMarker,mapView,onMapView,siteLon}:{provider:EphemerisProvider;anchor:SimAnchor;playing:boolean;rate:number;markers:MapMarker[];onMarker:(id:string)=>void;mapView:MapView;onMapView:(v:MapView)=>void;siteLon:Partial<Record<string,number>>}){
+  const [frameMs,setFrameMs]=useState(()=>simTimeMs(anchor,Date.now(),playing,rate));
+  useEffect(()=>{
+    let raf:number;
+    const loop=()=>{ setFrameMs(simTimeMs(anchor,Date.now(),playing,rate)); raf=requestAnimationFrame(loop); };
+    raf=requestAnimationFrame(loop); return ()=>cancelAnimationFrame(raf);
+  },[anchor, playing, rate]);
+  const rows=provider.rowsAt(frameMs);
+  return (
+    <>
+      <OrbitalGrid rows={rows} animate={playing} speedScale={rate} />
+      <p className="text-[11px] text-slate-600 mt-2">Angles θ are mean anomalies since J2000 (TT) for the circular model; the Keplerian model uses JPL J2000 elements + per‑century rates (Kepler's equation, vis‑viva speed) and θ is the true heliocentric ecliptic longitude; when SPICE is selected, positions come from your backend state vectors (converted to AU), fetched once per time bucket at the simulated epoch and interpolated between buckets as an offset from the Keplerian orbit. Mini‑plots show current (x,y) direction from the Sun. Use the interactive map below to pan/zoom.</p>
+
+      <div className="mt-4 flex flex-col items-start gap-2">
+        <div className="text-xs text-slate-700">Interactive heliocentric map (drag or one‑finger pan, wheel/pinch to zoom at the cursor, click a body for details; keys: arrows, +/−, 0, L, N/P, C, F, Esc)</div>
+        <HeliocentricMap rows={rows} rowsAt={provider.rowsAt} timeMs={frameMs} markers={markers} onMarker={onMarker} initialView={mapView} onView={onMapView} siteLon={siteLon}/>
+      </div>
+    </>
+  );
+}
+
+function EarthViewGrid({views}:{views:EarthView[]}){
+  return(
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-slate-600 border-b border-slate-300 bg-slate-50">
+            <th className="py-2 pr-3">Body</th>
+            <th className="py-2 pr-3">Δ (AU)</th>
+            <th className="py-2 pr-3">Δ (million km)</th>
+            <th className="py-2 pr-3">Light time (one‑way)</th>
+            <th className="py-2 pr-3">Round trip</th>
+            <th className="py-2 pr-3">Elongation</th>
+            <th className="py-2 pr-3">Phase angle</th>
+            <th className="py-2 pr-3">Illuminated</th>
+            <th className="py-2 pr-3">Mag (V)</th>
+            <th className="py-2 pr-3">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {views.map(v=> (
+            <tr key={v.name} className={`border-b border-slate-200 ${v.nearSun?'bg-rose-50':''}`}>
+              <td className="py-1 pr-3">{v.name}</td>
+              <td className="py-1 pr-3 tabular-nums">{v.distAU.toFixed(4)}</td>
+              <td className="py-1 pr-3 tabular-nums">{(v.distAU*AU_KM/1e6).toFixed(2)}</td>
+              <td className="py-1 pr-3 tabular-nums">{formatDuration(v.lightSec/3600)}</td>
+              <td className="py-1 pr-3 tabular-nums">{formatDuration(2*v.lightSec/3600)}</td>
+              <td className="py-1 pr-3 tabular-nums">{v.elongDeg.toFixed(1)}° {v.east?'E':'W'}</td>
+              <td className="py-1 pr-3 tabular-nums">{v.phaseDeg.toFixed(1)}°</td>
+              <td className="py-1 pr-3 tabular-nums">{(v.illum*100).toFixed(1)}%</td>
+              <td className="py-1 pr-3 tabular-nums">{v.mag===null?'—':v.mag.toFixed(2)}</td>
+              <td className={`py-1 pr-3 text-xs ${v.nearSun?'text-rose-700 font-medium':'text-slate-600'}`}>{v.nearSun?'Solar conjunction — too close to Sun':v.elongDeg>150?'Near opposition (all night)':v.east?'Evening sky':'Morning sky'}</td>
             </tr>
           ))}
         </tbody>
@@ -238,41 +642,402 @@ function StatTile({label,value}:{label:string|React.ReactNode;value:string}){
     </motion.div>
   )
 }
-function PlanetTiles({name,ct,lmst,longitude,onLon,dayLabel,dayNumber}:{name:string;ct:number;lmst:number;longitude:number;onLon:(v:number)=>void;dayLabel:string;dayNumber:number}){
+function PlanetTiles({name,ct,ltst,subsolar,longitude,onLon,dayLabel,dayNumber,children}:{name:string;ct:number;ltst:number;subsolar:{lonDeg:number;latDeg:number};longitude:number;onLon:(v:number)=>void;dayLabel:string;dayNumber:number;children?:React.ReactNode}){
   return(
     <div className="rounded-2xl border border-slate-300 bg-white shadow-md p-4 break-words">
       <h4 className="font-semibold mb-2 text-slate-900 leading-tight">{name}</h4>
       <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 xl:grid-cols-3">
-        <TimeTile label="CT (0°E)" value={formatHMS24(ct)}/>
-        <TimeTile label="LMST" value={formatHMS24(lmst)}/>
+        <TimeTile label="LTST (0°E)" value={formatHMS24(ct)}/>
+        <TimeTile label="LTST" value={formatHMS24(ltst)}/>
         <StatTile label={dayLabel} value={`${dayNumber}`}/>
       </div>
+      <div className="mt-2 text-xs text-slate-600">Subsolar point: {subsolar.lonDeg.toFixed(2)}°E, {subsolar.latDeg.toFixed(2)}°</div>
       <div className="mt-2">
         <label className="text-xs text-slate-600">Longitude (°E)</label>
         <input type="number" className="mt-1 w-full rounded-xl border border-slate-300 px-3 py-2 bg-white text-slate-900" value={longitude} onChange={e=>onLon(Number(e.target.value))}/>
       </div>
+      {children}
     </div>
   )
 }
 
-// Major moons (educational rotation day model)
-const MOONS = {
-  Phobos:   { periodHours: 7.653 },
-  Deimos:   { periodHours: 30.35 },
-  Io:       { periodHours: 42.459 },
-  Europa:   { periodHours: 85.228 },
-  Ganymede: { periodHours: 171.709 },
-  Callisto: { periodHours: 400.536 },
-  Titan:    { periodHours: 382.68 },
-  Rhea:     { periodHours: 108.45 },
-  Iapetus:  { periodHours: 1903.7 },
-  Enceladus:{ periodHours: 32.89 },
-  Titania:  { periodHours: 208.95 },
-  Oberon:   { periodHours: 323.1 },
-  Triton:   { periodHours: 141.0 },
-} as const;
-function rotationCT_24hDial(jdTT:number, periodHours:number, epochJDTT:number=J2000_TT){ const days = (jdTT - epochJDTT) / (periodHours/24); return mod((days % 1) * 24, 24); }
-function rotationCount(jdTT:number, periodHours:number, epochJDTT:number=J2000_TT){ return Math.floor((jdTT - epochJDTT) / (periodHours/24)); }
+// Moon phase glyph (lit limb on the right while waxing, as seen from the northern hemisphere)
+function MoonPhaseGlyph({illuminated,waxing,size=56}:{illuminated:number;waxing:boolean;size?:number}){
+  const r=size/2-2, cx=size/2, cy=size/2; const tx=Math.abs(1-2*illuminated)*r;
+  const limb=waxing?1:0; const term=(illuminated<0.5)===waxing?0:1;
+  const d=`M${cx},${cy-r} A${r},${r} 0 0 ${limb} ${cx},${cy+r} A${tx.toFixed(2)},${r} 0 0 ${term} ${cx},${cy-r} Z`;
+  return (<svg width={size} height={size} className="block"><circle cx={cx} cy={cy} r={r} fill="#334155"/><path d={d} fill="#f8fafc"/><circle cx={cx} cy={cy} r={r} fill="none" stroke="#94a3b8"/></svg>);
+}
+function MoonPhasePanel({jdTT,tz}:{jdTT:number;tz:string}){
+  const ph=moonPhase(jdTT); const {prevNew,next}=moonPhaseBracket(jdTT);
+  const fmt=(jd:number)=>new Intl.DateTimeFormat('en-GB',{timeZone:tz,year:'numeric',month:'short',day:'2-digit',hour:'2-digit',minute:'2-digit',hour12:false}).format(new Date((jdUTCfromTT(jd)-2440587.5)*86400000));
+  return (
+    <div className="mt-3 rounded-2xl border border-slate-300 bg-slate-50 p-3">
+      <div className="flex items-center gap-3">
+        <MoonPhaseGlyph illuminated={ph.illuminated} waxing={ph.waxing}/>
+        <div className="text-sm">
+          <div className="font-medium">{ph.name}</div>
+          <div>Illuminated {(ph.illuminated*100).toFixed(1)}% • age {(jdTT-prevNew).toFixed(2)} d</div>
+          <div className="text-xs text-slate-600">Phase angle {ph.phaseAngleDeg.toFixed(1)}° • elongation {ph.elongationDeg.toFixed(1)}°</div>
+        </div>
+      </div>
+      <div className="mt-2 text-xs text-slate-600">λ {ph.moon.lonDeg.toFixed(3)}° • β {ph.moon.latDeg.toFixed(3)}° • Δ {Math.round(ph.moon.distKm).toLocaleString('en-US')} km</div>
+      <table className="mt-2 w-full text-xs">
+        <tbody>
+          {next.map(n=> <tr key={n.label} className="border-b border-slate-200"><td className="py-0.5 text-slate-600">{n.label}</td><td className="tabular-nums text-right">{fmt(n.jd)}</td></tr>)}
+        </tbody>
+      </table>
+      <div className="text-[11px] text-slate-500 mt-1">Times in {tz}. Lunar day # is the lunation number (Meeus k) of the last new Moon.</div>
+    </div>
+  );
+}
+
+// Classic strip diagram (east left, west right, north up) + events in progress / next 48 h
+function SatelliteSystemPanel({system,jdTT,tz}:{system:SatelliteSystem;jdTT:number;tz:string}){
+  const sys=SATELLITE_SYSTEMS[system]; const cfg=satelliteConfig(system,jdTT);
+  const events=satelliteEventsFrom(system,jdTT,48); // cached 2‑day windows: a search only when the clock enters a new one
+  const nowFlags=cfg.map(c=>satEventFlags(c,sys.oblate));
+  const maxX=Math.max(...cfg.map(c=>Math.abs(c.earth.X)),2)*1.08;
+  const w=560,h=70, sx=(w/2-8)/maxX, pr=Math.max(3,sx);
+  const fmt=(jd:number)=>new Intl.DateTimeFormat('en-GB',{timeZone:tz,weekday:'short',day:'2-digit',hour:'2-digit',minute:'2-digit',hour12:false}).format(new Date((jdUTCfromTT(jd)-2440587.5)*86400000));
+  return (
+    <div className="rounded-2xl border border-slate-300 bg-white shadow-sm p-4">
+      <h4 className="font-semibold text-slate-900 mb-2 leading-tight">{system}</h4>
+      <div className="overflow-x-auto">
+        <svg width={w} height={h} viewBox={`0 0 ${w} ${h}`} className="block bg-slate-900 rounded-xl">
+          <text x={6} y={14} fontSize="10" fill="#94a3b8">E</text><text x={w-14} y={14} fontSize="10" fill="#94a3b8">W</text>
+          {system==='Saturn' && <ellipse cx={w/2} cy={h/2} rx={pr*2.27} ry={Math.max(0.5,pr*2.27*Math.abs(sinD(saturnRingOpeningDeg(jdTT))))} fill="none" stroke="#a8a29e"/>}
+          <ellipse cx={w/2} cy={h/2} rx={pr} ry={pr/sys.oblate} fill="#fcd34d"/>
+          {cfg.map((c,k)=>{ const f=nowFlags[k]; const x=w/2+c.earth.X*sx, y=h/2-c.earth.Y*sx; const hidden=f.occultation; const dark=f.eclipse;
+            return (<g key={c.name}>
+              <circle cx={x} cy={y} r={2.5} fill={hidden? 'none' : dark? '#475569' : '#e2e8f0'} stroke={hidden? '#94a3b8' : 'none'}/>
+              <text x={x} y={c.earth.Y>0? y+13 : y-6} fontSize="9" textAnchor="middle" fill="#cbd5e1">{c.name.slice(0,2)}</text>
+            </g>); })}
+        </svg>
+      </div>
+      <div className="mt-2 text-xs">
+        {cfg.map((c,k)=>{ const active=(Object.keys(SAT_EVENT_LABELS) as SatEventKind[]).filter(kind=>nowFlags[k][kind]);
+          return <span key={c.name} className="mr-3">{c.name}: {active.length? <span className="text-amber-700 font-medium">{active.map(kind=>SAT_EVENT_LABELS[kind]).join(', ')}</span> : <span className="text-slate-500">{c.earth.X>0?'W':'E'} {Math.abs(c.earth.X).toFixed(1)} R</span>}</span>; })}
+      </div>
+      <table className="mt-2 w-full text-xs">
+        <thead><tr className="text-left text-slate-600 border-b border-slate-300"><th className="py-1 pr-2">Moon</th><th className="py-1 pr-2">Event</th><th className="py-1 pr-2">Start</th><th className="py-1 pr-2">End</th></tr></thead>
+        <tbody>
+          {events.length===0 && <tr><td colSpan={4} className="py-1 text-slate-500">No events in the next 48 h.</td></tr>}
+          {events.map(ev=> (
+            <tr key={`${ev.moon}-${ev.kind}-${ev.start}`} className={`border-b border-slate-100 ${ev.inProgress?'bg-amber-50':''}`}>
+              <td className="py-0.5 pr-2">{ev.moon}</td><td className="py-0.5 pr-2">{SAT_EVENT_LABELS[ev.kind]}{ev.inProgress?' (in progress)':''}</td>
+              <td className="py-0.5 pr-2 tabular-nums">{ev.inProgress? '—' : fmt(ev.start)}</td><td className="py-0.5 pr-2 tabular-nums">{ev.end===null? 'after 48 h' : fmt(ev.end)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Planetary event finder: date range + body set → sortable list (jump buttons move the master clock)
+const planetEventId=(e:PlanetEvent)=>`${e.body}-${e.kind}-${e.jdTT.toFixed(5)}`;
+const PLANET_EVENT_MAX_DAYS=20*365.25;
+function PlanetEventsPanel({startMs,events,onEvents,selectedId,onJump,tz}:{startMs:number;events:PlanetEvent[];onEvents:(e:PlanetEvent[])=>void;selectedId:string|null;onJump:(e:PlanetEvent)=>void;tz:string}){
+  const dayISO=(ms:number)=>new Date(ms).toISOString().slice(0,10);
+  const [from,setFrom]=useState(()=>dayISO(startMs)); const [to,setTo]=useState(()=>dayISO(startMs+365.25*86400000));
+  const [bodies,setBodies]=useState<string[]>(()=>getOrbitalBodies().map(b=>b.name).filter(n=>n!=='Earth'));
+  const [sortKey,setSortKey]=useState<'time'|'body'|'kind'>('time'); const [sortDir,setSortDir]=useState<1|-1>(1);
+  const [error,setError]=useState<string|null>(null);
+  const search=()=>{
+    const a=Date.parse(`${from}T00:00:00Z`), b=Date.parse(`${to}T00:00:00Z`);
+    if(!Number.isFinite(a)||!Number.isFinite(b)||b<=a){ setError('Pick an end date after the start date.'); return; }
+    if((b-a)/86400000>PLANET_EVENT_MAX_DAYS){ setError('Range is limited to 20 years.'); return; }
+    setError(null); onEvents(findPlanetEvents(bodies,jdTTfromUTC(julianDateUTC(new Date(a))),jdTTfromUTC(julianDateUTC(new Date(b)))));
+  };
+  const sortBy=(k:typeof sortKey)=>{ if(k===sortKey) setSortDir(d=>d===1?-1:1); else { setSortKey(k); setSortDir(1); } };
+  const sorted=[...events].sort((a,b)=>sortDir*(sortKey==='time'? a.jdTT-b.jdTT : sortKey==='body'? a.body.localeCompare(b.body)||a.jdTT-b.jdTT : PLANET_EVENT_LABELS[a.kind].localeCompare(PLANET_EVENT_LABELS[b.kind])||a.jdTT-b.jdTT));
+  const fmt=(jd:number)=>new Intl.DateTimeFormat('en-GB',{timeZone:tz,year:'numeric',month:'short',day:'2-digit',hour:'2-digit',minute:'2-digit',hour12:false}).format(new Date((jdUTCfromTT(jd)-2440587.5)*86400000));
+  const th=(k:typeof sortKey,label:string)=> <th className="py-2 pr-3 cursor-pointer select-none" onClick={()=>sortBy(k)}>{label}{sortKey===k?(sortDir===1?' ▲':' ▼'):''}</th>;
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-3 text-xs">
+        <label className="text-slate-600">From (UTC)<input type="date" className="mt-1 block rounded-lg border border-slate-300 bg-white px-2 py-1 text-slate-900" value={from} onChange={e=>setFrom(e.target.value)}/></label>
+        <label className="text-slate-600">To (UTC)<input type="date" className="mt-1 block rounded-lg border border-slate-300 bg-white px-2 py-1 text-slate-900" value={to} onChange={e=>setTo(e.target.value)}/></label>
+        <div className="flex flex-wrap gap-2">
+          {getOrbitalBodies().map(b=> (
+            <label key={b.name} className="flex items-center gap-1 text-slate-700">
+              <input type="checkbox" checked={bodies.includes(b.name)} onChange={e=>setBodies(s=>e.target.checked? [...s,b.name] : s.filter(n=>n!==b.name))}/>{b.name}
+            </label>
+          ))}
+        </div>
+        <button onClick={search} className="rounded-xl border border-slate-300 px-3 py-1.5 text-sm bg-white hover:bg-slate-50">Find events</button>
+        {events.length>0 && <button onClick={()=>onEvents([])} className="rounded-xl border border-slate-300 px-3 py-1.5 text-sm bg-white hover:bg-slate-50">Clear</button>}
+      </div>
+      {error && <div className="mt-2 text-xs text-rose-700">{error}</div>}
+      {events.length>0 && (
+        <div className="mt-3 overflow-x-auto max-h-80 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-600 border-b border-slate-300 bg-slate-50">
+                {th('time',`Time (${tz})`)}{th('body','Body')}{th('kind','Event')}<th className="py-2 pr-3">Details</th><th className="py-2 pr-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(e=>{ const id=planetEventId(e); return (
+                <tr key={id} className={`border-b border-slate-200 ${id===selectedId?'bg-rose-50':''}`}>
+                  <td className="py-1 pr-3 tabular-nums">{fmt(e.jdTT)}</td>
+                  <td className="py-1 pr-3">{e.body}</td>
+                  <td className="py-1 pr-3">{PLANET_EVENT_LABELS[e.kind]}</td>
+                  <td className="py-1 pr-3 text-xs text-slate-600 tabular-nums">{e.detail}</td>
+                  <td className="py-1 pr-3"><button onClick={()=>onJump(e)} className="rounded-lg border border-slate-300 px-2 py-0.5 text-xs bg-white hover:bg-slate-50">Jump</button></td>
+                </tr>
+              ); })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ===== Simulation clock (time travel) =====
+// One master clock drives every tile, the orbital table and the map.
+// simMs = anchor.simMs + (realNow − anchor.realMs) × rate while playing; re‑anchored on every seek/rate/play change.
+const MARS_SOL_SECONDS=MARS_SOL_DAYS*86400;
+const JULIAN_YEAR_SECONDS=365.25*86400;
+const SCRUB_SPAN_HOURS=366*24; // scrubber covers ±1 year around the last jump target
+type SimAnchor = { simMs:number; realMs:number };
+const PAGE_TICK_MS=250;
+function simTimeMs(anchor:SimAnchor, realMs:number, playing:boolean, rate:number){ return playing? anchor.simMs+(realMs-anchor.realMs)*rate : anchor.simMs; }
+function toUTCInputValue(ms:number){ return new Date(ms).toISOString().slice(0,19); }
+function fromUTCInputValue(v:string){ const ms=Date.parse(v.length===16? `${v}:00Z` : `${v}Z`); return Number.isFinite(ms)? ms : null; }
+
+function TimeControls({simMs,live,playing,rate,scrubCenterMs,onSeek,onStep,onPlaying,onRate,onLive}:{simMs:number;live:boolean;playing:boolean;rate:number;scrubCenterMs:number;onSeek:(ms:number,recenter?:boolean)=>void;onStep:(seconds:number)=>void;onPlaying:(v:boolean)=>void;onRate:(r:number)=>void;onLive:()=>void}){
+  const [draft,setDraft]=useState<string|null>(null);
+  const scrubHours=Math.max(-SCRUB_SPAN_HOURS,Math.min(SCRUB_SPAN_HOURS,(simMs-scrubCenterMs)/3.6e6));
+  const btn="rounded-lg border border-slate-300 px-2 py-1 bg-white hover:bg-slate-50";
+  return (
+    <section className="mb-4 p-3 rounded-2xl border border-slate-300 bg-white shadow-md text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold text-sm mr-1">Simulation time</span>
+        <span className={`rounded-full px-2 py-0.5 text-[11px] ${live?'bg-emerald-100 text-emerald-800':'bg-amber-100 text-amber-800'}`}>{live? 'LIVE' : playing? `${rate.toLocaleString('en-US')}×` : 'PAUSED'}</span>
+        <label className="flex items-center gap-1 text-slate-600">UTC
+          <input type="datetime-local" step={1} className="rounded-lg border border-slate-300 px-2 py-1 bg-white text-slate-900"
+            value={draft ?? toUTCInputValue(simMs)} onFocus={()=>setDraft(toUTCInputValue(simMs))} onChange={e=>setDraft(e.target.value)}
+            onBlur={()=>{ const ms=draft? fromUTCInputValue(draft) : null; if(ms!==null) onSeek(ms,true); setDraft(null); }}
+            onKeyDown={e=>{ if(e.key==='Enter') (e.target as HTMLInputElement).blur(); }}/>
+        </label>
+        <button className={btn} onClick={()=>onPlaying(!playing)}>{playing? 'Pause' : 'Play'}</button>
+        <span>Speed:</span>
+        <select className="rounded-lg border border-slate-300 bg-white px-2 py-1" value={rate} onChange={e=>onRate(Number(e.target.value))}>
+          <option value={1}>1× (realtime)</option>
+          <option value={3600}>3,600× (1 h/s)</option>
+          <option value={10000}>10,000×</option>
+          <option value={86400}>86,400× (1 d/s)</option>
+          <option value={1000000}>1,000,000×</option>
+        </select>
+        <button className={`${btn} ml-auto`} disabled={live} onClick={onLive}>Return to live</button>
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-1">
+        <button className={btn} onClick={()=>onStep(-JULIAN_YEAR_SECONDS)}>−1 yr</button>
+        <button className={btn} onClick={()=>onStep(-MARS_SOL_SECONDS)}>−1 sol</button>
+        <button className={btn} onClick={()=>onStep(-3600)}>−1 h</button>
+        <input type="range" className="flex-1 min-w-[160px] mx-2" min={-SCRUB_SPAN_HOURS} max={SCRUB_SPAN_HOURS} step={1} value={scrubHours}
+          onChange={e=>onSeek(scrubCenterMs+Number(e.target.value)*3.6e6)} aria-label="Timeline scrubber"/>
+        <button className={btn} onClick={()=>onStep(3600)}>+1 h</button>
+        <button className={btn} onClick={()=>onStep(MARS_SOL_SECONDS)}>+1 sol</button>
+        <button className={btn} onClick={()=>onStep(JULIAN_YEAR_SECONDS)}>+1 yr</button>
+      </div>
+      <div className="mt-1 flex justify-between text-[11px] text-slate-500">
+        <span>{toUTCInputValue(scrubCenterMs-SCRUB_SPAN_HOURS*3.6e6).slice(0,10)}</span>
+        <span>{toUTCInputValue(scrubCenterMs).slice(0,10)}</span>
+        <span>{toUTCInputValue(scrubCenterMs+SCRUB_SPAN_HOURS*3.6e6).slice(0,10)}</span>
+      </div>
+    </section>
+  );
+}
+
+// ===== Time scales panel + universal converter =====
+type ConverterScale = ConvertibleScale | 'MSD';
+const CONVERTER_LABELS: Record<ConverterScale,string> = { UTC:'UTC (ISO)', TAI:'TAI (ISO)', TT:'TT (ISO)', TDB:'TDB (ISO)', GPS:'GPS seconds', GPSWeek:'GPS week:TOW', Unix:'Unix seconds', JD:'JD (UTC)', JD_TT:'JD (TT)', MJD:'MJD (UTC)', MSD:'Mars Sol Date' };
+function parseConverterInput(scale:ConverterScale, text:string): number|null {
+  if (scale==='MSD') { const msdIn=Number(text.trim()); return text.trim()!=='' && Number.isFinite(msdIn)? jdUTCfromTT(msdIn*MARS_SOL_DAYS+MSD_EPOCH_JDTT) : null; }
+  return parseTimeScale(scale,text);
+}
+function TimeScaleList({jdUTC,lon}:{jdUTC:number;lon:number}){
+  const ts=timeScalesAt(jdUTC);
+  const items:Array<[string,string]>=[
+    ['UTC',`${jdToCalendarString(ts.jdUTC)} UTC`], ['TAI',`${jdToCalendarString(ts.jdTAI)} TAI`],
+    ['TT',`${jdToCalendarString(ts.jdTT)} TT`], ['TDB',`${jdToCalendarString(ts.jdTDB)} TDB`],
+    ['GPS',`${ts.gpsSeconds.toFixed(3)} s • week ${ts.gpsWeek}, TOW ${ts.gpsTow.toFixed(3)}`], ['Unix',`${ts.unixSeconds.toFixed(3)} s`],
+    ['JD (UTC)',ts.jdUTC.toFixed(6)], ['JD (TT)',ts.jdTT.toFixed(6)], ['MJD (UTC)',ts.mjdUTC.toFixed(6)], ['MSD',marsSolDate(jdUTC).toFixed(6)],
+    ['GMST',formatHMS24(ts.gmstHours)], [`LST @ ${lon.toFixed(4)}°E`,formatHMS24(ts.gmstHours+lon/15)],
+  ];
+  return (
+    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+      {items.map(([k,v])=> (
+        <div key={k} className="flex justify-between gap-3 border-b border-slate-100 py-0.5">
+          <dt className="text-slate-600">{k}</dt><dd className="tabular-nums text-slate-900 text-right break-all">{v}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+function TimeScalesPanel({jdUTC,lon}:{jdUTC:number;lon:number}){
+  const [scale,setScale]=useState<ConverterScale>('UTC');
+  const [input,setInput]=useState('');
+  const converted=useMemo(()=>input.trim()? parseConverterInput(scale,input) : null,[scale,input]);
+  return (
+    <section className="mt-4 p-4 rounded-2xl border border-slate-300 bg-white shadow-md">
+      <h3 className="font-semibold mb-2">Time scales</h3>
+      <TimeScaleList jdUTC={jdUTC} lon={lon}/>
+      <div className="mt-4 rounded-2xl border border-slate-300 bg-slate-50 p-3">
+        <div className="text-sm font-medium mb-2">Converter</div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          <select className="rounded-lg border border-slate-300 bg-white px-2 py-1" value={scale} onChange={e=>setScale(e.target.value as ConverterScale)}>
+            {[...CONVERTIBLE_SCALES,'MSD' as const].map(k=> <option key={k} value={k}>{CONVERTER_LABELS[k]}</option>)}
+          </select>
+          <input className={`flex-1 min-w-[220px] rounded-lg border ${input.trim() && converted===null?'border-rose-400':'border-slate-300'} bg-white px-2 py-1`}
+            placeholder={scale==='GPSWeek'? 'e.g. 2295:345600' : ['UTC','TAI','TT','TDB'].includes(scale)? 'e.g. 2021-02-18T20:55:00' : 'number'}
+            value={input} onChange={e=>setInput(e.target.value)}/>
+          <button className="rounded-lg border border-slate-300 px-2 py-1 bg-white hover:bg-slate-50" onClick={()=>setInput(String(scale==='MSD'? marsSolDate(jdUTC).toFixed(6) : ''))}>{scale==='MSD'? 'Use current' : 'Clear'}</button>
+        </div>
+        <div className="mt-3">
+          {converted!==null
+            ? <TimeScaleList jdUTC={converted} lon={lon}/>
+            : <div className="text-[11px] text-slate-600">{input.trim()? 'Could not parse this value for the selected scale.' : 'Type a value in any scale to see it in all the others. Calendar scales accept YYYY‑MM‑DD[THH:MM[:SS.sss]].'}</div>}
+        </div>
+      </div>
+      <p className="text-[11px] text-slate-600 mt-2">TAI−UTC from the IERS leap‑second table (ΔT model outside it); TDB−TT periodic terms (≤1.7 ms); GPS = TAI − 19 s; sidereal times use the IAU 1982 GMST expression with UT1 ≈ UTC.</p>
+    </section>
+  );
+}
+
+// ===== Site catalog =====
+// Planetocentric latitude (°N) / east longitude (°E); built‑ins ship with the app, custom sites live in localStorage.
+const SITES_STORAGE_KEY='cosmic-clock.sites.v1';
+type SiteStore = { custom:Site[]; pinned:Record<SiteBody,string[]>; lon:Record<SiteBody,number>; earthLat:number };
+const DEFAULT_SITE_STORE: SiteStore = {
+  custom:[], pinned:Object.fromEntries(SITE_BODIES.map(b=>[b,[] as string[]])) as Record<SiteBody,string[]>,
+  lon:DEFAULT_SITE_LON, earthLat:DEFAULT_EARTH_LAT,
+};
+// Validate one site record (catalog import and localStorage); returns null when unusable
+function parseSite(v:unknown,id:string): Site|null {
+  if(typeof v!=='object' || v===null) return null;
+  const o=v as Record<string,unknown>;
+  const name=typeof o.name==='string'? o.name.trim().slice(0,80) : '';
+  if(!SITE_BODIES.includes(o.body as SiteBody) || !name) return null;
+  if(typeof o.lat!=='number' || !Number.isFinite(o.lat) || Math.abs(o.lat)>90 || typeof o.lon!=='number' || !Number.isFinite(o.lon)) return null;
+  return { id:typeof o.id==='string' && o.id.startsWith('user:')? o.id : id, body:o.body as SiteBody, name, lat:o.lat, lon:normLon(o.lon) };
+}
+function loadSiteStore(): SiteStore {
+  try {
+    const raw=localStorage.getItem(SITES_STORAGE_KEY); if(!raw) return DEFAULT_SITE_STORE;
+    const o=JSON.parse(raw) as Partial<SiteStore>;
+    const custom=(Array.isArray(o.custom)? o.custom : []).map((s,i)=>parseSite(s,`user:${i}`)).filter((s):s is Site=>s!==null);
+    const pinned={...DEFAULT_SITE_STORE.pinned}, lon={...DEFAULT_SITE_STORE.lon};
+    for(const b of SITE_BODIES){
+      const p=o.pinned?.[b]; if(Array.isArray(p)) pinned[b]=p.filter((id):id is string=>typeof id==='string');
+      const l=o.lon?.[b]; if(typeof l==='number' && Number.isFinite(l)) lon[b]=normLon(l);
+    }
+    const earthLat=typeof o.earthLat==='number' && Math.abs(o.earthLat)<=90? o.earthLat : DEFAULT_SITE_STORE.earthLat;
+    return { custom, pinned, lon, earthLat };
+  } catch { return DEFAULT_SITE_STORE; }
+}
+// Shareable catalog file: { format:'cosmic-clock-sites', version:1, sites:[{ body, name, lat, lon }] }
+function exportSiteCatalog(sites:Site[]){
+  return JSON.stringify({ format:'cosmic-clock-sites', version:1, sites:sites.map(({body,name,lat,lon})=>({body,name,lat,lon})) },null,2);
+}
+function parseSiteCatalog(text:string): { sites:Site[]; rejected:number } {
+  const json=JSON.parse(text) as unknown;
+  const list=Array.isArray(json)? json : typeof json==='object' && json!==null && Array.isArray((json as {sites?:unknown}).sites)? (json as {sites:unknown[]}).sites : null;
+  if(!list) throw new Error('Expected an array of sites or { sites: [...] }');
+  const stamp=Date.now().toString(36);
+  const sites=list.map((s,i)=>parseSite(s,`user:${stamp}-${i}`)).filter((s):s is Site=>s!==null);
+  return { sites, rejected:list.length-sites.length };
+}
+function downloadText(filename:string,text:string,type:string){
+  const url=URL.createObjectURL(new Blob([text],{type}));
+  const a=document.createElement('a'); a.href=url; a.download=filename; a.click(); URL.revokeObjectURL(url);
+}
+
+// Pinned sites shown side by side under a body's clocks; times come from the caller's clock math
+function SiteStrip({body,sites,pinned,primaryLon,onPin,onUnpin,onUse,timesFor}:{body:SiteBody;sites:Site[];pinned:string[];primaryLon:number;onPin:(id:string)=>void;onUnpin:(id:string)=>void;onUse:(s:Site)=>void;timesFor:(s:Site)=>Array<[string,string]>}){
+  const options=sites.filter(s=>s.body===body);
+  const [pick,setPick]=useState('');
+  const pinnedSites=pinned.map(id=>sites.find(s=>s.id===id)).filter((s):s is Site=>!!s);
+  const current=options.find(s=>Math.abs(normLon(s.lon-primaryLon))<1e-6);
+  return (
+    <div className="mt-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <select className="rounded-lg border border-slate-300 bg-white px-2 py-1 max-w-[16rem]" value={pick} onChange={e=>setPick(e.target.value)}>
+          <option value="">Site catalog…</option>
+          {options.map(s=> <option key={s.id} value={s.id}>{s.name}{s.builtin?'':' (custom)'}</option>)}
+        </select>
+        <button disabled={!pick} onClick={()=>{ const s=options.find(o=>o.id===pick); if(s) onUse(s); }} className="rounded-lg border border-slate-300 px-2 py-1 bg-white hover:bg-slate-50 disabled:opacity-50">Use</button>
+        <button disabled={!pick || pinned.includes(pick)} onClick={()=>onPin(pick)} className="rounded-lg border border-slate-300 px-2 py-1 bg-white hover:bg-slate-50 disabled:opacity-50">Pin</button>
+        {current && <span className="text-slate-500">at {current.name}</span>}
+      </div>
+      {pinnedSites.length>0 && (
+        <div className="mt-2 grid gap-2 grid-cols-1 sm:grid-cols-2 xl:grid-cols-3">
+          {pinnedSites.map(s=> (
+            <div key={s.id} className="rounded-xl border border-slate-300 bg-slate-50 p-2 text-xs">
+              <div className="flex items-start justify-between gap-2">
+                <button className="font-medium text-left text-slate-900 hover:underline" title="Use as the panel's longitude" onClick={()=>onUse(s)}>{s.name}</button>
+                <button className="text-slate-500 hover:text-rose-700" title="Unpin" onClick={()=>onUnpin(s.id)}>✕</button>
+              </div>
+              <div className="text-slate-500">{s.lat.toFixed(3)}°, {s.lon.toFixed(3)}°E</div>
+              {timesFor(s).map(([k,v])=> <div key={k} className="flex justify-between tabular-nums"><span className="text-slate-600">{k}</span><span>{v}</span></div>)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Custom sites + JSON import/export
+function SiteCatalogPanel({custom,onAdd,onRemove,onImport}:{custom:Site[];onAdd:(s:Site)=>void;onRemove:(id:string)=>void;onImport:(s:Site[])=>void}){
+  const [draft,setDraft]=useState({ body:'Mars' as SiteBody, name:'', lat:'0', lon:'0' });
+  const [msg,setMsg]=useState<{ok:boolean;text:string}|null>(null);
+  const add=()=>{
+    const s=parseSite({ body:draft.body, name:draft.name, lat:Number(draft.lat), lon:Number(draft.lon) },`user:${Date.now().toString(36)}`);
+    if(!s){ setMsg({ok:false,text:'Enter a name, latitude in [−90, 90] and a numeric longitude.'}); return; }
+    onAdd(s); setDraft(d=>({...d,name:''})); setMsg({ok:true,text:`Added ${s.name}.`});
+  };
+  const download=()=>downloadText('cosmic-clock-sites.json',exportSiteCatalog(custom),'application/json');
+  const upload=(file:File)=>{
+    file.text().then(text=>{ const {sites,rejected}=parseSiteCatalog(text); onImport(sites); setMsg({ok:true,text:`Imported ${sites.length} site(s)${rejected?`, skipped ${rejected} invalid`:''}.`}); })
+      .catch((e:unknown)=>setMsg({ok:false,text:`Import failed: ${e instanceof Error? e.message : String(e)}`}));
+  };
+  const input="rounded-lg border border-slate-300 bg-white px-2 py-1";
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-2 text-xs">
+        <label className="text-slate-600">Body<select className={`mt-1 block ${input}`} value={draft.body} onChange={e=>setDraft(d=>({...d,body:e.target.value as SiteBody}))}>{SITE_BODIES.map(b=> <option key={b}>{b}</option>)}</select></label>
+        <label className="text-slate-600">Name<input className={`mt-1 block ${input}`} value={draft.name} onChange={e=>setDraft(d=>({...d,name:e.target.value}))}/></label>
+        <label className="text-slate-600">Lat (°N)<input type="number" step={0.0001} className={`mt-1 block w-28 ${input}`} value={draft.lat} onChange={e=>setDraft(d=>({...d,lat:e.target.value}))}/></label>
+        <label className="text-slate-600">Lon (°E)<input type="number" step={0.0001} className={`mt-1 block w-28 ${input}`} value={draft.lon} onChange={e=>setDraft(d=>({...d,lon:e.target.value}))}/></label>
+        <button onClick={add} className="rounded-xl border border-slate-300 px-3 py-1.5 text-sm bg-white hover:bg-slate-50">Add site</button>
+        <button onClick={download} disabled={!custom.length} className="rounded-xl border border-slate-300 px-3 py-1.5 text-sm bg-white hover:bg-slate-50 disabled:opacity-50">Export JSON</button>
+        <label className="rounded-xl border border-slate-300 px-3 py-1.5 text-sm bg-white hover:bg-slate-50 cursor-pointer">Import JSON
+          <input type="file" accept="application/json,.json" className="hidden" onChange={e=>{ const f=e.target.files?.[0]; if(f) upload(f); e.target.value=''; }}/>
+        </label>
+      </div>
+      {msg && <div className={`mt-2 text-xs ${msg.ok?'text-emerald-700':'text-rose-700'}`}>{msg.text}</div>}
+      {custom.length>0 && (
+        <table className="mt-3 w-full text-sm">
+          <thead><tr className="text-left text-slate-600 border-b border-slate-300 bg-slate-50"><th className="py-1 pr-3">Body</th><th className="py-1 pr-3">Name</th><th className="py-1 pr-3">Lat (°N)</th><th className="py-1 pr-3">Lon (°E)</th><th></th></tr></thead>
+          <tbody>
+            {custom.map(s=> (
+              <tr key={s.id} className="border-b border-slate-200">
+                <td className="py-1 pr-3">{s.body}</td><td className="py-1 pr-3">{s.name}</td>
+                <td className="py-1 pr-3 tabular-nums">{s.lat.toFixed(4)}</td><td className="py-1 pr-3 tabular-nums">{s.lon.toFixed(4)}</td>
+                <td className="py-1 text-right"><button onClick={()=>onRemove(s.id)} className="text-xs text-slate-500 hover:text-rose-700">Remove</button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
 
 // Timezone helpers
 const PRESET_TZ = [
@@ -284,44 +1049,602 @@ const PRESET_TZ = [
 ];
 function getAllTimeZones(): string[] { const anyIntl = (Intl as any); if (typeof anyIntl.supportedValuesOf === 'function') { try { return anyIntl.supportedValuesOf('timeZone'); } catch {} } return PRESET_TZ; }
 function isValidTimeZone(tz: string): boolean { try { new Intl.DateTimeFormat('en-US', { timeZone: tz }).format(new Date()); return true; } catch { return false; } }
+// Offset of an IANA zone from UTC (ms) at an instant, and zoned wall‑clock → UTC (two passes settle DST edges)
+function tzOffsetMs(ms: number, tz: string) {
+  const p = Object.fromEntries(new Intl.DateTimeFormat('en-US', { timeZone: tz, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' })
+    .formatToParts(new Date(ms)).map(x => [x.type, x.value]));
+  return Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute, +p.second) - Math.floor(ms / 1000) * 1000;
+}
+function zonedToUtcMs(y: number, m0: number, d: number, hours: number, tz: string) {
+  const wall = Date.UTC(y, m0, d) + hours * 3600000; const t = wall - tzOffsetMs(wall, tz);
+  return wall - tzOffsetMs(t, tz);
+}
+
+// ===== Mission clocks & Earth↔Mars shift planner =====
+
+type ShiftWindow = { id:string; label:string; start:string; end:string; basis:'LMST'|'LTST' };
+type WorkHours = { start:string; end:string; weekdays:boolean };
+type MissionStore = { custom:Mission[]; selected:string; sols:number; windows:ShiftWindow[]; work:WorkHours };
+const MISSIONS_STORAGE_KEY='cosmic-clock.missions.v1';
+const DEFAULT_MISSION_STORE: MissionStore = {
+  custom:[], selected:'builtin:perseverance', sols:7,
+  windows:[{ id:'w0', label:'Rover ops', start:'09:00', end:'15:00', basis:'LMST' }], work:{ start:'09:00', end:'17:00', weekdays:true },
+};
+function loadMissionStore(): MissionStore {
+  try {
+    const raw=localStorage.getItem(MISSIONS_STORAGE_KEY); if(!raw) return DEFAULT_MISSION_STORE;
+    const o=JSON.parse(raw) as Partial<MissionStore>;
+    const custom=(Array.isArray(o.custom)? o.custom : []).filter((m):m is Mission=>typeof m?.name==='string' && Number.isFinite(Date.parse(m.landingUTC)) && Number.isFinite(m.lon) && Number.isFinite(m.firstSol));
+    const windows=(Array.isArray(o.windows)? o.windows : DEFAULT_MISSION_STORE.windows).filter(w=>parseHHMM(w?.start ?? '')!==null && parseHHMM(w?.end ?? '')!==null && (w.basis==='LMST'||w.basis==='LTST'));
+    const work=o.work && parseHHMM(o.work.start)!==null && parseHHMM(o.work.end)!==null? { ...o.work, weekdays:!!o.work.weekdays } : DEFAULT_MISSION_STORE.work;
+    return { custom, selected:typeof o.selected==='string'? o.selected : DEFAULT_MISSION_STORE.selected, sols:Math.min(28,Math.max(1,Number(o.sols)||7)), windows, work };
+  } catch { return DEFAULT_MISSION_STORE; }
+}
+
+type PlannerSol = { sol:number; startMs:number; endMs:number; work:Array<[number,number]>; windows:Array<{ label:string; startMs:number; endMs:number; overlaps:Array<[number,number]>; overlapMs:number }> };
+// Next n sols at the mission site from fromMs: rover windows (LTST converted with the mid‑sol EoT) vs Earth working hours in tz
+function planShifts(m:Mission,fromMs:number,n:number,windows:ShiftWindow[],work:WorkHours,tz:string): PlannerSol[] {
+  const K0=Math.floor(localMsd(marsSolDate(julianDateUTC(new Date(fromMs))),m.lon)); const solOffset=missionSol(m,K0-m.lon/360)-K0;
+  const ws=parseHHMM(work.start)!, we=parseHHMM(work.end)!;
+  const workIn=(a:number,b:number)=>{
+    const out:Array<[number,number]>=[];
+    for(let day=a+tzOffsetMs(a,tz)-86400000; day<b+tzOffsetMs(b,tz)+86400000; day+=86400000){
+      const d=new Date(day); const y=d.getUTCFullYear(), mo=d.getUTCMonth(), dd=d.getUTCDate(); const dow=new Date(Date.UTC(y,mo,dd)).getUTCDay();
+      if(work.weekdays && (dow===0||dow===6)) continue;
+      const s=zonedToUtcMs(y,mo,dd,ws,tz), e=zonedToUtcMs(y,mo,dd,we>ws? we : we+24,tz);
+      if(e>a && s<b) out.push([Math.max(s,a),Math.min(e,b)]);
+    }
+    return out;
+  };
+  return Array.from({length:n},(_,i)=>{
+    const K=K0+i; const startMs=utcMsAtLocalMsd(K,m.lon), endMs=utcMsAtLocalMsd(K+1,m.lon);
+    const eot=marsSun(jdTTfromUTC(julianDateUTC(new Date((startMs+endMs)/2)))).eotHours;
+    const span=(h0:number,h1:number):[number,number]=>[utcMsAtLocalMsd(K+h0/24,m.lon),utcMsAtLocalMsd(K+(h1>h0? h1 : h1+24)/24,m.lon)];
+    const wins=windows.map(w=>{
+      const shift=w.basis==='LTST'? -eot : 0; const [s,e]=span(parseHHMM(w.start)!+shift,parseHHMM(w.end)!+shift);
+      const overlaps=workIn(s,e); return { label:w.label, startMs:s, endMs:e, overlaps, overlapMs:overlaps.reduce((acc,[a,b])=>acc+b-a,0) };
+    });
+    return { sol:K+solOffset, startMs, endMs, work:workIn(startMs,endMs), windows:wins };
+  });
+}
+
+function AddMissionForm({marsSites,onAdd}:{marsSites:Site[];onAdd:(m:Mission)=>void}){
+  const [d,setD]=useState({ name:'', landingUTC:'', lon:'0', firstSol:'0' }); const [err,setErr]=useState<string|null>(null);
+  const input="rounded-lg border border-slate-300 bg-white px-2 py-1";
+  const add=()=>{
+    const ms=fromUTCInputValue(d.landingUTC.replace(/Z$/,'')); const lon=Number(d.lon), firstSol=Number(d.firstSol);
+    if(!d.name.trim() || ms===null || !Number.isFinite(lon) || !Number.isInteger(firstSol)){ setErr('Enter a name, landing time as YYYY‑MM‑DDTHH:MM[:SS] (UTC), a longitude and an integer first sol.'); return; }
+    onAdd({ id:`user:${Date.now().toString(36)}`, name:d.name.trim().slice(0,60), landingUTC:new Date(ms).toISOString(), lon:normLon(lon), firstSol }); setD({ name:'', landingUTC:'', lon:'0', firstSol:'0' }); setErr(null);
+  };
+  return (
+    <div className="mt-3">
+      <div className="flex flex-wrap items-end gap-2 text-xs">
+        <label className="text-slate-600">Mission<input className={`mt-1 block ${input}`} value={d.name} onChange={e=>setD({...d,name:e.target.value})}/></label>
+        <label className="text-slate-600">Landing (UTC)<input className={`mt-1 block w-44 ${input}`} placeholder="2021-02-18T20:44" value={d.landingUTC} onChange={e=>setD({...d,landingUTC:e.target.value})}/></label>
+        <label className="text-slate-600">Site<select className={`mt-1 block ${input}`} value="" onChange={e=>{ const s=marsSites.find(x=>x.id===e.target.value); if(s) setD({...d,lon:String(s.lon)}); }}><option value="">from catalog…</option>{marsSites.map(s=> <option key={s.id} value={s.id}>{s.name}</option>)}</select></label>
+        <label className="text-slate-600">Lon (°E)<input type="number" className={`mt-1 block w-24 ${input}`} value={d.lon} onChange={e=>setD({...d,lon:e.target.value})}/></label>
+        <label className="text-slate-600">Landing sol #<input type="number" className={`mt-1 block w-16 ${input}`} value={d.firstSol} onChange={e=>setD({...d,firstSol:e.target.value})}/></label>
+        <button onClick={add} className="rounded-xl border border-slate-300 px-3 py-1.5 text-sm bg-white hover:bg-slate-50">Add mission</button>
+      </div>
+      {err && <div className="mt-1 text-xs text-rose-700">{err}</div>}
+    </div>
+  );
+}
+
+function MissionClocks({missions,msd,eotHours,onRemove}:{missions:Mission[];msd:number;eotHours:number;onRemove:(id:string)=>void}){
+  return (
+    <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 xl:grid-cols-3">
+      {missions.map(m=>{ const lmst=marsLMST_Hours(msd,m.lon); return (
+        <div key={m.id} className="rounded-2xl border border-slate-300 bg-white shadow-sm p-3">
+          <div className="flex items-start justify-between gap-2 text-xs text-slate-600 leading-tight">
+            <span>{m.name} • {m.lon.toFixed(2)}°E</span>
+            {!m.builtin && <button className="text-slate-500 hover:text-rose-700" title="Remove mission" onClick={()=>onRemove(m.id)}>✕</button>}
+          </div>
+          <div className="text-lg font-semibold tabular-nums text-slate-900">Sol {missionSol(m,msd)} {formatHMS24(lmst).slice(0,5)} LMST</div>
+          <div className="text-xs text-slate-600 tabular-nums">LTST {formatHMS24(mod(lmst+eotHours,24))} • landed {m.landingUTC.slice(0,10)}</div>
+        </div>
+      ); })}
+    </div>
+  );
+}
+
+// HH:MM field that commits only valid values (keyed by value so external changes reset the draft)
+function HHMMInput({value,onCommit}:{value:string;onCommit:(v:string)=>void}){
+  const [draft,setDraft]=useState(value); const ok=parseHHMM(draft)!==null;
+  return <input className={`w-16 rounded-lg border ${ok?'border-slate-300':'border-rose-400'} bg-white px-2 py-1`} value={draft} onChange={e=>setDraft(e.target.value)} onBlur={()=>{ if(ok && draft!==value) onCommit(draft); }}/>;
+}
+
+function ShiftPlanner({missions,store,setStore,fromMs,tz}:{missions:Mission[];store:MissionStore;setStore:(f:(s:MissionStore)=>MissionStore)=>void;fromMs:number;tz:string}){
+  const mission=missions.find(m=>m.id===store.selected) ?? missions[0];
+  const bucket=Math.floor(fromMs/600000); // re‑plan every 10 simulated minutes
+  const plan=useMemo(()=>planShifts(mission,bucket*600000,store.sols,store.windows,store.work,tz),[mission,bucket,store.sols,store.windows,store.work,tz]);
+  const fmt=(ms:number)=>new Intl.DateTimeFormat('en-GB',{timeZone:tz,weekday:'short',day:'2-digit',month:'short',hour:'2-digit',minute:'2-digit',hour12:false}).format(new Date(ms));
+  const hm=(ms:number)=>`${Math.floor(ms/3600000)}h${pad2(Math.round(ms/60000)%60)}`;
+  const setWin=(id:string,patch:Partial<ShiftWindow>)=>setStore(s=>({...s,windows:s.windows.map(w=>w.id===id? {...w,...patch} : w)}));
+  const input="rounded-lg border border-slate-300 bg-white px-2 py-1";
+  const hhmmInput=(v:string,on:(v:string)=>void)=> <HHMMInput key={v} value={v} onCommit={on}/>;
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-3 text-xs">
+        <label className="text-slate-600">Mission<select className={`mt-1 block ${input}`} value={mission.id} onChange={e=>setStore(s=>({...s,selected:e.target.value}))}>{missions.map(m=> <option key={m.id} value={m.id}>{m.name}</option>)}</select></label>
+        <label className="text-slate-600">Sols<input type="number" min={1} max={28} className={`mt-1 block w-16 ${input}`} value={store.sols} onChange={e=>setStore(s=>({...s,sols:Math.min(28,Math.max(1,Number(e.target.value)||1))}))}/></label>
+        <div className="text-slate-600">Earth work hours ({tz})<div className="mt-1 flex items-center gap-1">
+          {hhmmInput(store.work.start,v=>setStore(s=>({...s,work:{...s.work,start:v}})))}–{hhmmInput(store.work.end,v=>setStore(s=>({...s,work:{...s.work,end:v}})))}
+          <label className="ml-2 flex items-center gap-1"><input type="checkbox" checked={store.work.weekdays} onChange={e=>setStore(s=>({...s,work:{...s.work,weekdays:e.target.checked}}))}/>Mon–Fri</label>
+        </div></div>
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+        {store.windows.map(w=> (
+          <div key={w.id} className="flex items-center gap-1 rounded-xl border border-slate-300 bg-slate-50 px-2 py-1">
+            <input className={`w-24 ${input}`} value={w.label} onChange={e=>setWin(w.id,{label:e.target.value})}/>
+            {hhmmInput(w.start,v=>setWin(w.id,{start:v}))}–{hhmmInput(w.end,v=>setWin(w.id,{end:v}))}
+            <select className={input} value={w.basis} onChange={e=>setWin(w.id,{basis:e.target.value as ShiftWindow['basis']})}><option>LMST</option><option>LTST</option></select>
+            <button className="text-slate-500 hover:text-rose-700" onClick={()=>setStore(s=>({...s,windows:s.windows.filter(x=>x.id!==w.id)}))}>✕</button>
+          </div>
+        ))}
+        <button className="rounded-lg border border-slate-300 px-2 py-1 bg-white hover:bg-slate-50" onClick={()=>setStore(s=>({...s,windows:[...s.windows,{ id:`w${Date.now().toString(36)}`, label:'Window', start:'12:00', end:'13:00', basis:'LMST' }]}))}>+ Window</button>
+      </div>
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-600 border-b border-slate-300 bg-slate-50">
+              <th className="py-2 pr-3">Sol</th><th className="py-2 pr-3">Sol starts (00:00 LMST)</th><th className="py-2 pr-3">Windows (Earth time)</th><th className="py-2 pr-3">Overlap</th><th className="py-2 pr-3 min-w-[220px]">LMST 00 → 24</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.map(p=>{ const pos=(ms:number)=>`${((ms-p.startMs)/(p.endMs-p.startMs)*100).toFixed(2)}%`; const wid=(a:number,b:number)=>`${((b-a)/(p.endMs-p.startMs)*100).toFixed(2)}%`; return (
+              <tr key={p.sol} className="border-b border-slate-200 align-top">
+                <td className="py-1 pr-3 tabular-nums">{p.sol}</td>
+                <td className="py-1 pr-3 tabular-nums">{fmt(p.startMs)}</td>
+                <td className="py-1 pr-3 tabular-nums text-xs">{p.windows.map((w,i)=> <div key={i}>{w.label}: {fmt(w.startMs)} → {fmt(w.endMs)}</div>)}</td>
+                <td className="py-1 pr-3 tabular-nums text-xs">{p.windows.map((w,i)=> <div key={i} className={w.overlapMs>0?'text-violet-700 font-medium':'text-slate-500'}>{w.overlapMs>0? hm(w.overlapMs) : 'none'}</div>)}</td>
+                <td className="py-1 pr-3">
+                  <div className="relative h-4 rounded bg-slate-100 overflow-hidden">
+                    {p.work.map(([a,b],i)=> <div key={`e${i}`} className="absolute top-0 h-2 bg-emerald-300" style={{left:pos(a),width:wid(a,b)}}/>)}
+                    {p.windows.map((w,i)=> <div key={`w${i}`} className="absolute bottom-0 h-2 bg-sky-300" style={{left:pos(w.startMs),width:wid(w.startMs,Math.min(w.endMs,p.endMs))}}/>)}
+                    {p.windows.flatMap((w,i)=>w.overlaps.map(([a,b],j)=> <div key={`o${i}-${j}`} className="absolute top-0 h-4 bg-violet-500/70" style={{left:pos(a),width:wid(a,Math.min(b,p.endMs))}}/>))}
+                  </div>
+                </td>
+              </tr>
+            ); })}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-1 text-[11px] text-slate-600"><span className="inline-block w-3 h-2 bg-emerald-300 align-middle"/> Earth work hours <span className="ml-2 inline-block w-3 h-2 bg-sky-300 align-middle"/> Mars windows <span className="ml-2 inline-block w-3 h-2 bg-violet-500/70 align-middle"/> overlap</div>
+    </div>
+  );
+}
+
+// ===== Cross‑body alarms: storage + UI (planning and the playback sweep in ./alarms) =====
+const ALARMS_STORAGE_KEY='cosmic-clock.alarms.v1';
+function loadAlarms(): Alarm[] {
+  try {
+    const raw=localStorage.getItem(ALARMS_STORAGE_KEY); const arr=raw? JSON.parse(raw) as unknown : [];
+    return (Array.isArray(arr)? arr : []).filter((a):a is Alarm=>typeof a?.id==='string' && isAlarmSpec(a.spec)).map(a=>({
+      id:a.id, enabled:!!a.enabled, repeat:a.repeat==='every'? 'every' : 'once', spec:a.spec,
+      lastFiredMs:Number.isFinite(a.lastFiredMs)? a.lastFiredMs : null, snoozeUntilMs:Number.isFinite(a.snoozeUntilMs)? a.snoozeUntilMs : null,
+    }));
+  } catch { return []; }
+}
+
+type AlarmDraft = { kind:AlarmSpec['kind']; siteId:string; basis:'LMST'|'LTST'; time:string; body:SolarBody; event:EarthSunEvent; offsetMin:string; system:SatelliteSystem; moon:string; satEvent:SatEventKind; missionId:string; sol:string; phase:0|90|180|270; repeat:'once'|'every' };
+const ALARM_KIND_LABELS: Record<AlarmSpec['kind'],string> = { 'mars-time':'Mars local time', 'body-time':'Moon/planet local solar time', 'earth-sun':'Earth Sun event', 'sat-event':'Jupiter/Saturn moon event', 'mission-sol':'Mission sol starts', 'moon-phase':'Moon phase' };
+
+function AddAlarmForm({sites,missions,onAdd}:{sites:Site[];missions:Mission[];onAdd:(a:Alarm)=>void}){
+  const [d,setD]=useState<AlarmDraft>({ kind:'mars-time', siteId:'', basis:'LTST', time:'12:00', body:'Moon', event:'sunset', offsetMin:'0', system:'Jupiter', moon:'Io', satEvent:'transit', missionId:missions[0]?.id ?? '', sol:'', phase:180, repeat:'every' });
+  const [err,setErr]=useState<string|null>(null);
+  const input="rounded-lg border border-slate-300 bg-white px-2 py-1";
+  const siteBody:SiteBody|null=d.kind==='mars-time'? 'Mars' : d.kind==='body-time'? d.body : d.kind==='earth-sun'? 'Earth' : null;
+  const bodySites=siteBody? sites.filter(s=>s.body===siteBody) : [];
+  const site=bodySites.find(s=>s.id===d.siteId) ?? bodySites[0];
+  const build=(): AlarmSpec|string => {
+    switch(d.kind){
+      case 'mars-time': case 'body-time':
+        if(parseHHMM(d.time)===null) return 'Enter the local time as HH:MM.';
+        if(!site) return 'Pick a site (add one in the Site catalog).';
+        return d.kind==='mars-time'? { kind:'mars-time', basis:d.basis, time:d.time, lon:site.lon, place:site.name } : { kind:'body-time', body:d.body, time:d.time, lon:site.lon, place:site.name };
+      case 'earth-sun': {
+        const off=Number(d.offsetMin); if(!Number.isInteger(off) || Math.abs(off)>720) return 'Offset must be whole minutes within ±720.';
+        if(!site) return 'Pick an Earth site (add one in the Site catalog).';
+        return { kind:'earth-sun', event:d.event, offsetMin:off, lat:site.lat, lon:site.lon, place:site.name };
+      }
+      case 'sat-event': return { kind:'sat-event', system:d.system, moon:d.moon, event:d.satEvent };
+      case 'mission-sol': {
+        if(!missions.some(m=>m.id===d.missionId)) return 'Pick a mission.';
+        if(d.sol.trim()==='') return { kind:'mission-sol', missionId:d.missionId, sol:null };
+        const sol=Number(d.sol); return Number.isInteger(sol)? { kind:'mission-sol', missionId:d.missionId, sol } : 'Sol must be an integer (leave blank for every sol).';
+      }
+      case 'moon-phase': return { kind:'moon-phase', phase:d.phase };
+    }
+  };
+  const add=()=>{
+    const spec=build(); if(typeof spec==='string'){ setErr(spec); return; }
+    const once=spec.kind==='mission-sol' && spec.sol!==null;
+    onAdd({ id:`alarm:${Date.now().toString(36)}`, enabled:true, repeat:once? 'once' : d.repeat, spec, lastFiredMs:null, snoozeUntilMs:null }); setErr(null);
+  };
+  const moons=Object.keys(SATELLITE_SYSTEMS[d.system].moons);
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-2 text-xs">
+        <label className="text-slate-600">Clock<select className={`mt-1 block ${input}`} value={d.kind} onChange={e=>setD({...d,kind:e.target.value as AlarmDraft['kind'],siteId:''})}>{(Object.keys(ALARM_KIND_LABELS) as AlarmDraft['kind'][]).map(k=> <option key={k} value={k}>{ALARM_KIND_LABELS[k]}</option>)}</select></label>
+        {d.kind==='body-time' && <label className="text-slate-600">Body<select className={`mt-1 block ${input}`} value={d.body} onChange={e=>setD({...d,body:e.target.value as SolarBody,siteId:''})}>{(Object.keys(SOLAR_DAY_HOURS) as SolarBody[]).map(b=> <option key={b}>{b}</option>)}</select></label>}
+        {d.kind==='mars-time' && <label className="text-slate-600">Basis<select className={`mt-1 block ${input}`} value={d.basis} onChange={e=>setD({...d,basis:e.target.value as AlarmDraft['basis']})}><option>LTST</option><option>LMST</option></select></label>}
+        {(d.kind==='mars-time'||d.kind==='body-time') && <label className="text-slate-600">Local time<input className={`mt-1 block w-16 ${input}`} value={d.time} onChange={e=>setD({...d,time:e.target.value})}/></label>}
+        {d.kind==='earth-sun' && <>
+          <label className="text-slate-600">Event<select className={`mt-1 block ${input}`} value={d.event} onChange={e=>setD({...d,event:e.target.value as EarthSunEvent})}>{(Object.keys(EARTH_SUN_EVENT_LABELS) as EarthSunEvent[]).map(k=> <option key={k} value={k}>{EARTH_SUN_EVENT_LABELS[k]}</option>)}</select></label>
+          <label className="text-slate-600">Offset (min)<input type="number" className={`mt-1 block w-20 ${input}`} value={d.offsetMin} onChange={e=>setD({...d,offsetMin:e.target.value})}/></label>
+        </>}
+        {siteBody && <label className="text-slate-600">Site<select className={`mt-1 block ${input}`} value={site?.id ?? ''} onChange={e=>setD({...d,siteId:e.target.value})}>{bodySites.length? bodySites.map(s=> <option key={s.id} value={s.id}>{s.name}</option>) : <option value="">no {siteBody} sites</option>}</select></label>}
+        {d.kind==='sat-event' && <>
+          <label className="text-slate-600">System<select className={`mt-1 block ${input}`} value={d.system} onChange={e=>{ const system=e.target.value as SatelliteSystem; setD({...d,system,moon:Object.keys(SATELLITE_SYSTEMS[system].moons)[0]}); }}><option>Jupiter</option><option>Saturn</option></select></label>
+          <label className="text-slate-600">Moon<select className={`mt-1 block ${input}`} value={d.moon} onChange={e=>setD({...d,moon:e.target.value})}>{moons.map(m=> <option key={m}>{m}</option>)}</select></label>
+          <label className="text-slate-600">Event<select className={`mt-1 block ${input}`} value={d.satEvent} onChange={e=>setD({...d,satEvent:e.target.value as SatEventKind})}>{(Object.keys(SAT_EVENT_LABELS) as SatEventKind[]).map(k=> <option key={k} value={k}>{SAT_EVENT_LABELS[k]}</option>)}</select></label>
+        </>}
+        {d.kind==='mission-sol' && <>
+          <label className="text-slate-600">Mission<select className={`mt-1 block ${input}`} value={d.missionId} onChange={e=>setD({...d,missionId:e.target.value})}>{missions.map(m=> <option key={m.id} value={m.id}>{m.name}</option>)}</select></label>
+          <label className="text-slate-600">Sol<input className={`mt-1 block w-20 ${input}`} placeholder="every" value={d.sol} onChange={e=>setD({...d,sol:e.target.value})}/></label>
+        </>}
+        {d.kind==='moon-phase' && <label className="text-slate-600">Phase<select className={`mt-1 block ${input}`} value={d.phase} onChange={e=>setD({...d,phase:Number(e.target.value) as AlarmDraft['phase']})}>{([0,90,180,270] as const).map(p=> <option key={p} value={p}>{MOON_PHASE_ALARM_LABELS[p]}</option>)}</select></label>}
+        <label className="text-slate-600">Repeat<select className={`mt-1 block ${input}`} value={d.repeat} onChange={e=>setD({...d,repeat:e.target.value as AlarmDraft['repeat']})}><option value="once">once</option><option value="every">repeat</option></select></label>
+        <button onClick={add} className="rounded-xl border border-slate-300 px-3 py-1.5 text-sm bg-white hover:bg-slate-50">Add alarm</button>
+      </div>
+      {err && <div className="mt-1 text-xs text-rose-700">{err}</div>}
+    </div>
+  );
+}
+
+type FiredAlarm = { key:string; alarmId:string; title:string; atMs:number };
+const ALARM_SNOOZE_MIN=[5,15,60];
+
+// Alarms fire when the simulation clock sweeps past a trigger while playing; seeks and jumps re‑plan without firing the skipped backlog.
+function AlarmsPanel({simMs,anchor,playing,tz,sites,missions}:{simMs:number;anchor:SimAnchor;playing:boolean;tz:string;sites:Site[];missions:Mission[]}){
+  const [alarms,setAlarms]=useState<Alarm[]>(loadAlarms);
+  useEffect(()=>{ try { localStorage.setItem(ALARMS_STORAGE_KEY,JSON.stringify(alarms)); } catch { /* storage disabled or full */ } },[alarms]);
+  const [planFromMs,setPlanFromMs]=useState(simMs);
+  const [fired,setFired]=useState<FiredAlarm[]>([]);
+  const [permission,setPermission]=useState(()=>typeof Notification==='undefined'? 'unsupported' : Notification.permission);
+  const upcoming=useMemo(()=>alarms.filter(a=>a.enabled).map(a=>({
+    alarm:a, atMs:a.snoozeUntilMs ?? nextAlarmMs(a.spec,Math.max(planFromMs,a.lastFiredMs ?? -Infinity),missions),
+  })).sort((x,y)=>(x.atMs ?? Infinity)-(y.atMs ?? Infinity)),[alarms,planFromMs,missions]);
+
+  const prevTick=useRef<AlarmTick>({simMs,anchor,playing});
+  useEffect(()=>{
+    const prev=prevTick.current; prevTick.current={simMs,anchor,playing};
+    const due=alarmSweep(prev,{simMs,anchor,playing},upcoming,missions);
+    if(!due){ if(simMs!==prev.simMs) setPlanFromMs(simMs); return; }
+    if(due.length){
+      // Newest first; a long throttled gap can sweep more than the toast stack shows
+      const hits=due.map(u=>({ key:`${u.alarm.id}@${u.atMs}`, alarmId:u.alarm.id, title:describeAlarm(u.alarm.spec,missions), atMs:u.atMs })).reverse().slice(0,8);
+      setFired(f=>[...hits,...f].slice(0,8));
+      if(typeof Notification!=='undefined' && Notification.permission==='granted'){
+        for(const h of hits){ try { new Notification('Cosmic Clock alarm',{ body:h.title, tag:h.key }); } catch { /* e.g. mobile requires a service worker */ } }
+      }
+      const byId=new Map(due.map(u=>[u.alarm.id,u.atMs])); // oldest first, so each alarm keeps its latest trigger
+      setAlarms(as=>as.map(a=>byId.has(a.id)? { ...a, lastFiredMs:byId.get(a.id)!, snoozeUntilMs:null, enabled:a.repeat==='every' } : a));
+    } else if(upcoming.some(u=>u.atMs!==null && u.atMs<=simMs)) setPlanFromMs(simMs);
+  },[simMs, anchor, playing, upcoming, missions]);
+
+  const snooze=(f:FiredAlarm,min:number)=>{
+    setAlarms(as=>as.map(a=>a.id===f.alarmId? { ...a, enabled:true, snoozeUntilMs:Math.max(simMs,f.atMs)+min*60000 } : a));
+    setFired(fs=>fs.filter(x=>x.key!==f.key));
+  };
+  const requestPermission=()=>{ if(typeof Notification!=='undefined') void Notification.requestPermission().then(setPermission); };
+  const patch=(id:string,p:Partial<Alarm>)=>setAlarms(as=>as.map(a=>a.id===id? {...a,...p} : a));
+  const fmt=(ms:number)=>new Intl.DateTimeFormat('en-GB',{timeZone:tz,weekday:'short',day:'2-digit',month:'short',year:'numeric',hour:'2-digit',minute:'2-digit',second:'2-digit',hour12:false}).format(new Date(ms));
+  const inLabel=(ms:number)=>{ const s=Math.round((ms-simMs)/1000); const a=Math.abs(s); const txt=a<3600? `${Math.floor(a/60)}m ${pad2(a%60)}s` : a<172800? `${Math.floor(a/3600)}h ${pad2(Math.floor(a/60)%60)}m` : `${(a/86400).toFixed(1)} d`; return s>=0? `in ${txt}` : `${txt} ago`; };
+  const nextById=new Map(upcoming.map(u=>[u.alarm.id,u.atMs]));
+  const rows=[...alarms].sort((x,y)=>(nextById.get(x.id) ?? Infinity)-(nextById.get(y.id) ?? Infinity));
+
+  return (
+    <div>
+      {fired.length>0 && (
+        <div className="fixed top-3 right-3 z-50 flex w-80 flex-col gap-2" role="alert">
+          {fired.map(f=> (
+            <div key={f.key} className="rounded-2xl border border-amber-300 bg-amber-50 p-3 shadow-lg text-sm">
+              <div className="font-semibold text-amber-900">⏰ {f.title}</div>
+              <div className="text-xs text-amber-800 tabular-nums">{fmt(f.atMs)} ({tz})</div>
+              <div className="mt-2 flex flex-wrap gap-1 text-xs">
+                {ALARM_SNOOZE_MIN.map(m=> <button key={m} className="rounded-lg border border-amber-300 bg-white px-2 py-0.5 hover:bg-amber-100" onClick={()=>snooze(f,m)}>Snooze {m<60? `${m} min` : `${m/60} h`}</button>)}
+                <button className="rounded-lg border border-amber-300 bg-white px-2 py-0.5 hover:bg-amber-100" onClick={()=>setFired(fs=>fs.filter(x=>x.key!==f.key))}>Dismiss</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <AddAlarmForm sites={sites} missions={missions} onAdd={a=>setAlarms(as=>[...as,a])}/>
+      <div className="mt-2 text-xs text-slate-600">
+        Browser notifications: {permission==='granted'? <span className="text-emerald-700">on</span> : permission==='unsupported'? 'not supported here (in‑page banner only)' : permission==='denied'? 'blocked in browser settings (in‑page banner only)'
+          : <button className="rounded-lg border border-slate-300 px-2 py-0.5 bg-white hover:bg-slate-50" onClick={requestPermission}>Enable</button>}
+      </div>
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-600 border-b border-slate-300 bg-slate-50">
+              <th className="py-2 pr-3">On</th><th className="py-2 pr-3">Alarm</th><th className="py-2 pr-3">Repeat</th><th className="py-2 pr-3">Next trigger ({tz})</th><th className="py-2 pr-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length===0 && <tr><td colSpan={5} className="py-2 text-slate-500 text-xs">No alarms yet.</td></tr>}
+            {rows.map(a=>{ const at=nextById.get(a.id); const fixedSol=a.spec.kind==='mission-sol' && a.spec.sol!==null; return (
+              <tr key={a.id} className="border-b border-slate-200">
+                <td className="py-1 pr-3"><input type="checkbox" checked={a.enabled} onChange={e=>patch(a.id,{enabled:e.target.checked,snoozeUntilMs:null})}/></td>
+                <td className="py-1 pr-3">{describeAlarm(a.spec,missions)}{a.snoozeUntilMs!==null && <span className="ml-1 text-xs text-amber-700">(snoozed)</span>}</td>
+                <td className="py-1 pr-3 text-xs">
+                  <select className="rounded-lg border border-slate-300 bg-white px-1 py-0.5" value={a.repeat} disabled={fixedSol} onChange={e=>patch(a.id,{repeat:e.target.value as Alarm['repeat']})}>
+                    <option value="once">once</option><option value="every">{alarmRepeatLabel(a.spec)}</option>
+                  </select>
+                </td>
+                <td className="py-1 pr-3 tabular-nums text-xs">{!a.enabled? <span className="text-slate-500">off</span> : at==null? <span className="text-slate-500">none found</span> : <>{fmt(at)} <span className="text-slate-500">({inLabel(at)})</span></>}</td>
+                <td className="py-1 pr-3 text-right"><button className="text-slate-500 hover:text-rose-700" title="Delete alarm" onClick={()=>setAlarms(as=>as.filter(x=>x.id!==a.id))}>✕</button></td>
+              </tr>
+            ); })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// ===== Export: ephemeris tables (./cosmicClock), iCalendar feeds =====
+const ICS_MAX_DAYS=3*366;
+
+type CalendarEvent = { uid:string; startMs:number; summary:string; description:string };
+const icsStamp=(ms:number)=>new Date(ms).toISOString().replace(/[-:]/g,'').replace(/\.\d+/,'');
+const icsText=(s:string)=>s.replace(/\\/g,'\\\\').replace(/;/g,'\\;').replace(/,/g,'\\,').replace(/\r?\n/g,'\\n');
+// RFC 5545 §3.1: content lines fold at 75 octets (continuations start with a space)
+function icsFold(line:string){
+  const enc=new TextEncoder(); const parts:string[]=[]; let cur='', n=0;
+  for(const ch of line){ const b=enc.encode(ch).length; if(n+b>(parts.length? 74 : 75)){ parts.push(cur); cur=''; n=0; } cur+=ch; n+=b; }
+  return [...parts,cur].join('\r\n ');
+}
+function buildICS(name:string,events:CalendarEvent[]){
+  const stamp=icsStamp(Date.now());
+  const lines=['BEGIN:VCALENDAR','VERSION:2.0','PRODID:-//Cosmic Clock//Ephemeris export//EN','CALSCALE:GREGORIAN','METHOD:PUBLISH',`X-WR-CALNAME:${icsText(name)}`,
+    ...events.flatMap(e=>['BEGIN:VEVENT',`UID:${e.uid}@cosmic-clock`,`DTSTAMP:${stamp}`,`DTSTART:${icsStamp(e.startMs)}`,`DTEND:${icsStamp(e.startMs)}`,
+      `SUMMARY:${icsText(e.summary)}`,`DESCRIPTION:${icsText(e.description)}`,'TRANSP:TRANSPARENT','END:VEVENT']),
+    'END:VCALENDAR'];
+  return lines.map(icsFold).join('\r\n')+'\r\n';
+}
+// Sol boundaries (00:00 LMST) at a longitude; solNumber maps the local MSD sol to the label's numbering (mission or MSD)
+function marsSolEvents(label:string,lon:number,solNumber:(K:number)=>number,fromMs:number,toMs:number): CalendarEvent[] {
+  const out:CalendarEvent[]=[];
+  for(let K=Math.floor(localMsd(marsSolDate(fromMs/86400000+2440587.5),lon))+1;;K++){
+    const t=utcMsAtLocalMsd(K,lon); if(t>=toMs) break;
+    out.push({ uid:`mars-sol-${lon.toFixed(4)}-${K}`, startMs:t, summary:`${label}: Sol ${solNumber(K)} begins`, description:`00:00 LMST at ${lon.toFixed(4)}°E (Mars24), MSD ${(K-lon/360).toFixed(5)}.` });
+  }
+  return out;
+}
+function moonPhaseEvents(fromMs:number,toMs:number): CalendarEvent[] {
+  const out:CalendarEvent[]=[];
+  for(const phase of [0,90,180,270] as const){
+    for(let jd=moonPhaseTime(jdTTatMs(fromMs),phase,1);;jd=moonPhaseTime(jd+1,phase,1)){
+      const t=msFromJdTT(jd); if(t>=toMs) break;
+      if(t>=fromMs) out.push({ uid:`moon-${phase}-${Math.round(jd*100)}`, startMs:t, summary:MOON_PHASE_ALARM_LABELS[phase], description:`Moon − Sun ecliptic longitude ${phase}° (Meeus ch. 47).` });
+    }
+  }
+  return out.sort((a,b)=>a.startMs-b.startMs);
+}
+const planetCalendarEvents=(events:PlanetEvent[]): CalendarEvent[]=>events.map(e=>({
+  uid:planetEventId(e), startMs:msFromJdTT(e.jdTT), summary:`${e.body}: ${PLANET_EVENT_LABELS[e.kind]}`, description:`${e.detail} (Keplerian model, geometric).`,
+}));
+
+function ExportDialog({rowsAt,source,simMs,sites,defaultSiteIds,missions,onClose}:{rowsAt:(ms:number)=>OrbitalRow[];source:string;simMs:number;sites:Site[];defaultSiteIds:string[];missions:Mission[];onClose:()=>void}){
+  const [from,setFrom]=useState(()=>toUTCInputValue(simMs).slice(0,16)); const [to,setTo]=useState(()=>toUTCInputValue(simMs+30*86400000).slice(0,16));
+  const [step,setStep]=useState('1'); const [unit,setUnit]=useState<ExportStepUnit>('d');
+  const [bodyNames]=useState(()=>rowsAt(simMs).map(r=>r.name)); // registry orbits + small bodies
+  const [bodies,setBodies]=useState<string[]>(bodyNames);
+  const [siteIds,setSiteIds]=useState<string[]>(defaultSiteIds);
+  const [solSource,setSolSource]=useState(()=>missions[0]? `mission:${missions[0].id}` : '');
+  const [feeds,setFeeds]=useState({ sols:true, moon:true, planets:true });
+  const [msg,setMsg]=useState<{ok:boolean;text:string}|null>(null);
+  const input="rounded-lg border border-slate-300 bg-white px-2 py-1";
+  const range=(maxDays:number)=>{
+    const a=fromUTCInputValue(from), b=fromUTCInputValue(to);
+    if(a===null || b===null || b<=a){ setMsg({ok:false,text:'Pick an end time after the start time (UTC).'}); return null; }
+    if((b-a)/86400000>maxDays){ setMsg({ok:false,text:`Range is limited to ${Math.round(maxDays)} days.`}); return null; }
+    return [a,b] as const;
+  };
+  const stamp=(ms:number)=>new Date(ms).toISOString().slice(0,10);
+  const exportTable=(format:'csv'|'json')=>{
+    const r=range(PLANET_EVENT_MAX_DAYS); if(!r) return;
+    const stepMs=Number(step)*EXPORT_STEP_MS[unit];
+    if(!(stepMs>=60000)){ setMsg({ok:false,text:'Step must be at least one minute.'}); return; }
+    const epochs=Math.floor((r[1]-r[0])/stepMs)+1;
+    if(epochs>EXPORT_MAX_EPOCHS){ setMsg({ok:false,text:`${epochs} epochs requested; the limit is ${EXPORT_MAX_EPOCHS} — use a larger step or a shorter range.`}); return; }
+    if(!bodies.length){ setMsg({ok:false,text:'Pick at least one body.'}); return; }
+    const t=ephemerisExport(rowsAt,r[0],r[1],stepMs,bodies,sites.filter(s=>siteIds.includes(s.id)),source);
+    const name=`cosmic-clock-ephemeris-${stamp(r[0])}_${stamp(r[1])}`;
+    if(format==='csv') downloadText(`${name}.csv`,ephemerisCSV(t),'text/csv'); else downloadText(`${name}.json`,JSON.stringify(t,null,2),'application/json');
+    setMsg({ok:true,text:`Exported ${epochs} epoch(s) × ${bodies.length} body(ies).`});
+  };
+  const exportICS=()=>{
+    const r=range(ICS_MAX_DAYS); if(!r) return;
+    const events:CalendarEvent[]=[]; const names:string[]=[];
+    if(feeds.sols){
+      const [kind,id]=[solSource.slice(0,solSource.indexOf(':')),solSource.slice(solSource.indexOf(':')+1)];
+      const m=kind==='mission'? missions.find(x=>x.id===id) : undefined; const site=kind==='site'? sites.find(x=>x.id===id) : undefined;
+      if(m){ const K0=Math.floor(localMsd(marsSolDate(r[0]/86400000+2440587.5),m.lon)); const off=missionSol(m,K0-m.lon/360)-K0; events.push(...marsSolEvents(m.name,m.lon,K=>K+off,r[0],r[1])); names.push(`${m.name} sols`); }
+      else if(site){ events.push(...marsSolEvents(site.name,site.lon,K=>K,r[0],r[1])); names.push(`${site.name} sols`); }
+    }
+    if(feeds.moon){ events.push(...moonPhaseEvents(r[0],r[1])); names.push('Moon phases'); }
+    if(feeds.planets){ events.push(...planetCalendarEvents(findPlanetEvents(bodies.filter(b=>b!=='Earth'),jdTTatMs(r[0]),jdTTatMs(r[1])))); names.push('planetary events'); }
+    if(!events.length){ setMsg({ok:false,text:'Nothing to export — pick at least one feed.'}); return; }
+    events.sort((a,b)=>a.startMs-b.startMs);
+    downloadText(`cosmic-clock-${stamp(r[0])}_${stamp(r[1])}.ics`,buildICS(`Cosmic Clock — ${names.join(', ')}`,events),'text/calendar');
+    setMsg({ok:true,text:`Exported ${events.length} event(s).`});
+  };
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-slate-900/40 p-4" onClick={onClose}>
+      <div role="dialog" aria-modal="true" aria-label="Export" className="mt-10 w-full max-w-3xl rounded-2xl border border-slate-300 bg-white p-4 shadow-xl" onClick={e=>e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-3"><h3 className="font-semibold">Export</h3><button className="text-slate-500 hover:text-slate-900" title="Close" onClick={onClose}>✕</button></div>
+        <div className="flex flex-wrap items-end gap-3 text-xs">
+          <label className="text-slate-600">From (UTC)<input type="datetime-local" className={`mt-1 block ${input}`} value={from} onChange={e=>setFrom(e.target.value)}/></label>
+          <label className="text-slate-600">To (UTC)<input type="datetime-local" className={`mt-1 block ${input}`} value={to} onChange={e=>setTo(e.target.value)}/></label>
+          <label className="text-slate-600">Step<div className="mt-1 flex gap-1"><input type="number" min={0} step="any" className={`w-20 ${input}`} value={step} onChange={e=>setStep(e.target.value)}/>
+            <select className={input} value={unit} onChange={e=>setUnit(e.target.value as ExportStepUnit)}><option value="min">minutes</option><option value="h">hours</option><option value="d">days</option><option value="sol">sols</option></select></div></label>
+        </div>
+        <div className="mt-3 flex flex-wrap gap-2 text-xs">
+          {bodyNames.map(name=> (
+            <label key={name} className="flex items-center gap-1 text-slate-700"><input type="checkbox" checked={bodies.includes(name)} onChange={e=>setBodies(s=>e.target.checked? [...s,name] : s.filter(n=>n!==name))}/>{name}</label>
+          ))}
+        </div>
+        <div className="mt-3 text-xs text-slate-600">Local times at sites</div>
+        <div className="mt-1 max-h-28 overflow-y-auto flex flex-wrap gap-x-3 gap-y-1 text-xs">
+          {sites.map(s=> (
+            <label key={s.id} className="flex items-center gap-1 text-slate-700"><input type="checkbox" checked={siteIds.includes(s.id)} onChange={e=>setSiteIds(ids=>e.target.checked? [...ids,s.id] : ids.filter(x=>x!==s.id))}/>{s.body}: {s.name}</label>
+          ))}
+        </div>
+        <div className="mt-3 flex flex-wrap gap-2">
+          <button className="rounded-xl border border-slate-300 px-3 py-1.5 text-sm bg-white hover:bg-slate-50" onClick={()=>exportTable('csv')}>Ephemeris CSV</button>
+          <button className="rounded-xl border border-slate-300 px-3 py-1.5 text-sm bg-white hover:bg-slate-50" onClick={()=>exportTable('json')}>Ephemeris JSON</button>
+        </div>
+        <h4 className="mt-4 mb-1 text-sm font-semibold">Calendar (.ics)</h4>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-700">
+          <label className="flex items-center gap-1"><input type="checkbox" checked={feeds.sols} onChange={e=>setFeeds(f=>({...f,sols:e.target.checked}))}/>Mars sol boundaries at</label>
+          <select className={input} value={solSource} onChange={e=>setSolSource(e.target.value)}>
+            <optgroup label="Missions">{missions.map(m=> <option key={m.id} value={`mission:${m.id}`}>{m.name}</option>)}</optgroup>
+            <optgroup label="Mars sites">{sites.filter(s=>s.body==='Mars').map(s=> <option key={s.id} value={`site:${s.id}`}>{s.name}</option>)}</optgroup>
+          </select>
+          <label className="flex items-center gap-1"><input type="checkbox" checked={feeds.moon} onChange={e=>setFeeds(f=>({...f,moon:e.target.checked}))}/>Moon phases</label>
+          <label className="flex items-center gap-1"><input type="checkbox" checked={feeds.planets} onChange={e=>setFeeds(f=>({...f,planets:e.target.checked}))}/>Planetary events (bodies above)</label>
+          <button className="rounded-xl border border-slate-300 px-3 py-1.5 text-sm bg-white hover:bg-slate-50" onClick={exportICS}>Download .ics</button>
+        </div>
+        {msg && <div className={`mt-2 text-xs ${msg.ok?'text-emerald-700':'text-rose-700'}`}>{msg.text}</div>}
+        <p className="text-[11px] text-slate-600 mt-3">The table uses the current data source ({source}); with SPICE, epochs that are not cached yet fall back to the Keplerian model and the source column says so. Positions are heliocentric ecliptic J2000 (AU), as in the table on the page. Calendar events are instants in UTC (ranges up to {Math.round(ICS_MAX_DAYS/366)} years); import the file, or host it where your team's calendars can subscribe to it, and re‑export to extend it.</p>
+      </div>
+    </div>
+  );
+}
+
+// ===== View state: permalinks (URL hash) + saved preferences =====
+// The hash carries everything needed to reproduce a view; preferences reuse the same encoding in localStorage.
+type DataSource = 'model'|'kepler'|'spice';
+const DATA_SOURCES: DataSource[] = ['model','kepler','spice'];
+const SIM_RATES=[1,3600,10000,86400,1000000];
+const SPICE_POLL_OPTIONS=[1000,2000,5000,10000,30000,60000];
+const VIEW_MAX_EPOCH_MS=Date.UTC(9999,11,31); // keeps links within what Date/ISO 8601 round‑trips
+type ViewState = {
+  epochMs:number|null; playing:boolean; rate:number; tz:string; compact:boolean; source:DataSource; pollMs:number;
+  lon:Record<SiteBody,number>; earthLat:number; moonLon:Record<string,number>; map:MapView;
+};
+const PREFS_STORAGE_KEY='cosmic-clock.prefs.v1';
+const PREF_PARAMS=['tz','compact','src','poll','mlon','zoom','panx','pany','logr'];
+const roundNum=(x:number,dp:number)=>String(Number(x.toFixed(dp)));
+function encodeViewState(v:ViewState){
+  const p=new URLSearchParams();
+  if(v.epochMs!==null) p.set('t',new Date(v.epochMs).toISOString());
+  p.set('play',v.playing?'1':'0'); p.set('rate',String(v.rate));
+  p.set('tz',v.tz); p.set('compact',v.compact?'1':'0'); p.set('src',v.source); p.set('poll',String(v.pollMs));
+  for(const b of SITE_BODIES) p.set(`lon.${b}`,roundNum(v.lon[b],4));
+  p.set('lat',roundNum(v.earthLat,4));
+  p.set('mlon',Object.entries(v.moonLon).filter(([,x])=>x!==0).map(([k,x])=>`${k}:${roundNum(x,4)}`).join(','));
+  p.set('zoom',roundNum(v.map.zoom,3)); p.set('panx',roundNum(v.map.x,0)); p.set('pany',roundNum(v.map.y,0)); p.set('logr',v.map.log?'1':'0');
+  if(v.map.sel) p.set('sel',v.map.sel);
+  p.set('follow',v.map.follow?'1':'0');
+  return p.toString();
+}
+// Parameters missing from the link keep the base value; invalid ones are reported and also keep the base value
+// bodies: names a map selection may refer to (registry orbits plus this browser's small bodies)
+function parseViewState(query:string,base:ViewState,bodies:string[]=getOrbitalBodies().map(b=>b.name)): { view:ViewState; invalid:string[] } {
+  const p=new URLSearchParams(query); const v:ViewState={ ...base, lon:{...base.lon}, map:{...base.map} }; const invalid:string[]=[];
+  const field=<T,>(k:string,parse:(s:string)=>T|undefined,apply:(x:T)=>void)=>{ const s=p.get(k); if(s===null) return; const x=parse(s); if(x===undefined) invalid.push(`${k}=${s}`); else apply(x); };
+  const num=(lo:number,hi:number)=>(s:string)=>{ const x=s.trim()===''? NaN : Number(s); return Number.isFinite(x) && x>=lo && x<=hi? x : undefined; };
+  const oneOf=<T,>(opts:readonly T[],conv:(s:string)=>T)=>(s:string)=>opts.includes(conv(s))? conv(s) : undefined;
+  const flag=(s:string)=>s==='1'? true : s==='0'? false : undefined;
+  const lonOK=(s:string)=>{ const x=num(-180,360)(s); return x===undefined? undefined : x>180? x-360 : x; }; // exact round trip for −180…180
+  field('t',s=>{ const ms=/^-?\d+$/.test(s)? Number(s) : Date.parse(s); return Number.isFinite(ms) && Math.abs(ms)<=VIEW_MAX_EPOCH_MS? ms : undefined; },ms=>{ v.epochMs=ms; });
+  field('play',flag,x=>{ v.playing=x; });
+  field('rate',oneOf(SIM_RATES,Number),x=>{ v.rate=x; });
+  field('tz',s=>isValidTimeZone(s)? s : undefined,x=>{ v.tz=x; });
+  field('compact',flag,x=>{ v.compact=x; });
+  field('src',oneOf(DATA_SOURCES,s=>s as DataSource),x=>{ v.source=x; });
+  field('poll',oneOf(SPICE_POLL_OPTIONS,Number),x=>{ v.pollMs=x; });
+  for(const b of SITE_BODIES) field(`lon.${b}`,lonOK,x=>{ v.lon[b]=x; });
+  field('lat',num(-90,90),x=>{ v.earthLat=x; });
+  field('mlon',s=>{
+    const out:Record<string,number>={};
+    for(const part of s.split(',').filter(Boolean)){ const [k,x]=part.split(':'); const lon=lonOK(x ?? ''); if(!(k in MOONS) || lon===undefined) return undefined; out[k]=lon; }
+    return out;
+  },x=>{ v.moonLon=x; });
+  field('zoom',num(MAP_ZOOM_MIN,MAP_ZOOM_MAX),x=>{ v.map.zoom=x; });
+  field('panx',num(-1e5,1e5),x=>{ v.map.x=x; });
+  field('pany',num(-1e5,1e5),x=>{ v.map.y=x; });
+  field('logr',flag,x=>{ v.map.log=x; });
+  field('sel',oneOf(bodies,s=>s),x=>{ v.map.sel=x; });
+  field('follow',flag,x=>{ v.map.follow=x; });
+  return { view:v, invalid };
+}
+function loadPrefsQuery(){ try { return localStorage.getItem(PREFS_STORAGE_KEY) ?? ''; } catch { return ''; } }
+function prefsQuery(v:ViewState){ const p=new URLSearchParams(encodeViewState(v)); return new URLSearchParams([...p].filter(([k])=>PREF_PARAMS.includes(k))).toString(); }
 
 // ===== Main =====
 export default function CosmicClock(){
   const userTZ=useMemo(()=>Intl.DateTimeFormat().resolvedOptions().timeZone||"UTC",[]);
-  const [now,setNow]=useState(new Date());
-  const [compact,setCompact]=useState(false);
-  const [earthTz,setEarthTz]=useState(userTZ);
+  // Initial view: defaults ← saved preferences/sites ← permalink hash (each layer validated; bad link values are reported)
+  const [boot]=useState(()=>{
+    const sites=loadSiteStore(), smallBodies=loadSmallBodies(); const bodies=[...getOrbitalBodies().map(b=>b.name),...smallBodies.map(b=>b.name)];
+    const defaults:ViewState={ epochMs:null, playing:true, rate:1, tz:userTZ, compact:false, source:'model', pollMs:5000, lon:sites.lon, earthLat:sites.earthLat, moonLon:{}, map:DEFAULT_MAP_VIEW };
+    const prefs=parseViewState(loadPrefsQuery(),defaults,bodies).view;
+    const {view,invalid}=parseViewState(window.location.hash.replace(/^#/,''),prefs,bodies);
+    return { view, invalid, smallBodies, siteStore:{ ...sites, lon:view.lon, earthLat:view.earthLat }, prefsQuery:prefsQuery(view) };
+  });
+  const [linkInvalid,setLinkInvalid]=useState<string[]>(boot.invalid);
+  const [compact,setCompact]=useState(boot.view.compact);
+  const [earthTz,setEarthTz]=useState(boot.view.tz);
   const [tzQuery,setTzQuery]=useState("");
   const [allTZ] = useState<string[]>(getAllTimeZones());
 
-  // Orbit animation controls
-  const [animateOrbits,setAnimateOrbits]=useState(true); // default 1× real-time
-  const [orbitSpeedScale,setOrbitSpeedScale]=useState(1);
-
-  // Visual time (smooth animation independent of tick)
-  const [visualJDTT, setVisualJDTT] = useState(()=> julianDateUTC(new Date()) + TT_MINUS_UTC_SECONDS/86400);
+  // Master simulation clock — play/pause and speed drive every clock, not just the orbit rings
+  const [animateOrbits,setAnimateOrbits]=useState(boot.view.playing); // default 1× real-time
+  const [orbitSpeedScale,setOrbitSpeedScale]=useState(boot.view.rate);
+  const [simAnchor,setSimAnchor]=useState<SimAnchor>(()=>({simMs:boot.view.epochMs ?? Date.now(),realMs:Date.now()}));
+  const [scrubCenterMs,setScrubCenterMs]=useState(()=>boot.view.epochMs ?? Date.now());
+  const [simMs,setSimMs]=useState(()=>boot.view.epochMs ?? Date.now());
+  // Page clocks tick at PAGE_TICK_MS; only the map/table (OrbitalViews) run per animation frame
   useEffect(()=>{
-    let raf:number; const start = performance.now(); const base = julianDateUTC(new Date()) + TT_MINUS_UTC_SECONDS/86400;
-    const loop=(t:number)=>{ const dt=(t-start)/1000; setVisualJDTT(animateOrbits? base + (dt*orbitSpeedScale)/86400 : base); raf=requestAnimationFrame(loop); };
-    raf=requestAnimationFrame(loop); return ()=>cancelAnimationFrame(raf);
-  },[animateOrbits, orbitSpeedScale]);
+    const id=setInterval(()=>setSimMs(simTimeMs(simAnchor,Date.now(),animateOrbits,orbitSpeedScale)),PAGE_TICK_MS);
+    return ()=>clearInterval(id);
+  },[simAnchor, animateOrbits, orbitSpeedScale]);
+  const currentSimMs=()=>simTimeMs(simAnchor,Date.now(),animateOrbits,orbitSpeedScale);
+  const seekSim=(ms:number,recenter=false)=>{ setSimAnchor({simMs:ms,realMs:Date.now()}); setSimMs(ms); if(recenter) setScrubCenterMs(ms); };
+  const stepSim=(seconds:number)=>seekSim(currentSimMs()+seconds*1000);
+  const setSimPlaying=(v:boolean)=>{ seekSim(currentSimMs()); setAnimateOrbits(v); };
+  const setSimRate=(r:number)=>{ seekSim(currentSimMs()); setOrbitSpeedScale(r); };
+  const goLive=()=>{ seekSim(Date.now(),true); setAnimateOrbits(true); setOrbitSpeedScale(1); };
+  const isLive=animateOrbits && orbitSpeedScale===1 && Math.abs(simAnchor.simMs-simAnchor.realMs)<1000;
+  const now=useMemo(()=>new Date(simMs),[simMs]);
 
-  const [earthLon,setEarthLon]=useState(77.1025);
-  const [marsLon,setMarsLon]=useState(137.4);
-  const [moonLon,setMoonLon]=useState(0);
-  const [mercuryLon,setMercuryLon]=useState(0);
-  const [venusLon,setVenusLon]=useState(0);
-  const [jupiterLon,setJupiterLon]=useState(0);
+  // Sites: per‑body longitude (+ Earth latitude), pinned sites and the custom catalog — persisted in localStorage
+  const [siteStore,setSiteStore]=useState<SiteStore>(boot.siteStore);
+  useEffect(()=>{
+    if(siteStore===boot.siteStore) return; // opening a link must not overwrite saved longitudes
+    try { localStorage.setItem(SITES_STORAGE_KEY,JSON.stringify(siteStore)); } catch { /* storage disabled or full */ }
+  },[siteStore, boot.siteStore]);
+  const setBodyLon=(b:SiteBody)=>(v:number)=>setSiteStore(st=>({...st,lon:{...st.lon,[b]:v}}));
+  const {Earth:earthLon,Mars:marsLon}=siteStore.lon;
+  const setEarthLon=setBodyLon('Earth'), setMarsLon=setBodyLon('Mars');
+  const earthLat=siteStore.earthLat; const setEarthLat=(v:number)=>setSiteStore(st=>({...st,earthLat:v}));
+  const allSites=useMemo(()=>[...BUILTIN_SITES,...siteStore.custom],[siteStore.custom]);
+  const applySite=(site:Site)=>setSiteStore(st=>({...st,lon:{...st.lon,[site.body]:site.lon},earthLat:site.body==='Earth'? site.lat : st.earthLat}));
+  const pinSite=(b:SiteBody,id:string,on:boolean)=>setSiteStore(st=>({...st,pinned:{...st.pinned,[b]:on? [...st.pinned[b].filter(x=>x!==id),id] : st.pinned[b].filter(x=>x!==id)}}));
+  const addSites=(list:Site[])=>setSiteStore(st=>{
+    const key=(x:Site)=>`${x.body}|${x.name.toLowerCase()}`; const incoming=new Map(list.map(x=>[key(x),x]));
+    return {...st,custom:[...st.custom.filter(x=>!incoming.has(key(x))),...incoming.values()]};
+  });
+  // Missions + shift planner settings — persisted
+  const [missionStore,setMissionStore]=useState<MissionStore>(loadMissionStore);
+  useEffect(()=>{ try { localStorage.setItem(MISSIONS_STORAGE_KEY,JSON.stringify(missionStore)); } catch { /* storage disabled or full */ } },[missionStore]);
+  const missions=useMemo(()=>[...BUILTIN_MISSIONS,...missionStore.custom],[missionStore.custom]);
+  const removeSite=(id:string)=>setSiteStore(st=>({...st,custom:st.custom.filter(x=>x.id!==id),pinned:Object.fromEntries(SITE_BODIES.map(b=>[b,st.pinned[b].filter(x=>x!==id)])) as SiteStore['pinned']}));
 
   const [tests,setTests]=useState<Array<{name:string;pass:boolean;got:string;expected:string;note?:string}>>([]);
 
-  useEffect(()=>{const id=setInterval(()=>setNow(new Date()),1000);return()=>clearInterval(id)},[]);
-
   const earthLMST=useMemo(()=>earthMeanSolarTimeHours(now,earthLon),[now,earthLon]);
   const earthLAST=useMemo(()=>earthApparentSolarTimeHours(now,earthLon),[now,earthLon]);
   const eotMin=useMemo(()=>equationOfTimeMinutes(now),[now]);
-  const earthCivil=useMemo(()=>new Intl.DateTimeFormat("en-GB",{timeZone:earthTz,hour:"2-digit",minute:"2-digit",second:"2-digit",hour12:false}).format(now),[now,earthTz]);
-  const earthDateStr=useMemo(()=>new Intl.DateTimeFormat("en-GB",{timeZone:earthTz,weekday:'short',year:'numeric',month:'short',day:'2-digit'}).format(now),[now,earthTz]);
+  const sunDay=useMemo(()=>earthSunDay(now,earthLat,earthLon),[now,earthLat,earthLon]);
+  const sunAltAz=useMemo(()=>solarAltAzDeg(now,earthLat,earthLon),[now,earthLat,earthLon]);
+  const {date:earthDateStr,time:earthCivil}=useMemo(()=>civilDateTime(simMs,earthTz),[simMs,earthTz]);
   const utcDateStr=useMemo(()=>new Intl.DateTimeFormat("en-GB",{timeZone:'UTC',weekday:'short',year:'numeric',month:'short',day:'2-digit'}).format(now),[now]);
 
   const jdUTC=useMemo(()=>julianDateUTC(now),[now]);
@@ -329,77 +1652,88 @@ export default function CosmicClock(){
   const mtc=useMemo(()=>marsMTC_Hours(msd),[msd]);
   const marsLMSTval=useMemo(()=>marsLMST_Hours(msd,marsLon),[msd,marsLon]);
   const solNumber=useMemo(()=>Math.floor(msd),[msd]);
-  const jdTT=useMemo(()=>jdUTC+TT_MINUS_UTC_SECONDS/86400,[jdUTC]);
-
-  function genericCT(hoursPerSolarDay:number,epoch:number,jdTTlocal?:number){const base=jdTTlocal??jdTT;const days=(base-epoch)/(hoursPerSolarDay/24);return mod((days%1)*24,24)}
-  const Bodies={Moon:{solarDayHours:29.530588*24,epochJDTT:2451545},Mercury:{solarDayHours:175.938*24,epochJDTT:2451545},Venus:{solarDayHours:-116.75*24,epochJDTT:2451545},Jupiter:{solarDayHours:9.925,epochJDTT:2451545}};
-  const moonCT=useMemo(()=>genericCT(Bodies.Moon.solarDayHours,Bodies.Moon.epochJDTT),[jdTT]);
-  const moonLMST=useMemo(()=>mod(moonCT+moonLon/15,24),[moonCT,moonLon]);
-  const mercuryCT=useMemo(()=>genericCT(Bodies.Mercury.solarDayHours,Bodies.Mercury.epochJDTT),[jdTT]);
-  const mercuryLMST=useMemo(()=>mod(mercuryCT+mercuryLon/15,24),[mercuryCT,mercuryLon]);
-  const venusCT=useMemo(()=>genericCT(Bodies.Venus.solarDayHours,Bodies.Venus.epochJDTT),[jdTT]);
-  const venusLMST=useMemo(()=>mod(venusCT+venusLon/15,24),[venusCT,venusLon]);
-  const jupiterCT=useMemo(()=>genericCT(Bodies.Jupiter.solarDayHours,Bodies.Jupiter.epochJDTT),[jdTT]);
-  const jupiterLMST=useMemo(()=>mod(jupiterCT+jupiterLon/15,24),[jupiterCT,jupiterLon]);
-
-  const moonDayNum=Math.floor((jdTT-Bodies.Moon.epochJDTT)/(Bodies.Moon.solarDayHours/24));
-  const mercuryDayNum=Math.floor((jdTT-Bodies.Mercury.epochJDTT)/(Bodies.Mercury.solarDayHours/24));
-  const venusDayNum=Math.floor((jdTT-Bodies.Venus.epochJDTT)/(Bodies.Venus.solarDayHours/24));
-  const jupiterDayNum=Math.floor((jdTT-Bodies.Jupiter.epochJDTT)/(Bodies.Jupiter.solarDayHours/24));
-
-  // Major moons maps
-  const moonCTmap = useMemo(()=>Object.fromEntries(Object.entries(MOONS).map(([k,v])=>[k, rotationCT_24hDial(jdTT, v.periodHours)])),[jdTT]);
+  const jdTT=useMemo(()=>jdTTfromUTC(jdUTC),[jdUTC]);
+  const marsSunNow=useMemo(()=>marsSun(jdTT),[jdTT]);
+  const marsLTSTval=mod(marsLMSTval+marsSunNow.eotHours,24);
+  const marsYearNow=marsYear(jdTT,marsSunNow.Ls);
+  const marsYearStart=useMemo(()=>marsYearStartJDTT(marsYearNow),[marsYearNow]);
+  const marsSeason=marsSeasons(marsSunNow.Ls);
+
+  // Real local solar time from IAU rotation elements + Sun direction
+  const subsolarNow=useMemo(()=>Object.fromEntries(Object.keys(IAU_ROTATION).map(k=>[k,subsolarPoint(k,jdTT)!])),[jdTT]);
+
+  const siteTimes=(site:Site)=>siteLocalTimes(site,simMs);
+  const siteStrip=(b:SiteBody)=> <SiteStrip body={b} sites={allSites} pinned={siteStore.pinned[b]} primaryLon={siteStore.lon[b]}
+    onPin={id=>pinSite(b,id,true)} onUnpin={id=>pinSite(b,id,false)} onUse={applySite} timesFor={siteTimes}/>;
+
+  // One tile per registry body with an IAU solar clock; the day counter follows the body's day rule (lunar days start at new Moon)
+  const solarTiles=SOLAR_BODIES.map(b=>{ const lon=siteStore.lon[b.name]; return { body:b, lon, solar:solarClock(b.name,jdTT,lon) }; });
+
+  // Major moons: rotation counts + real local solar time at a per‑moon longitude
+  const [moonSiteLon,setMoonSiteLon]=useState<Record<string,number>>(boot.view.moonLon);
   const moonDaymap = useMemo(()=>Object.fromEntries(Object.entries(MOONS).map(([k,v])=>[k, rotationCount(jdTT, v.periodHours)])),[jdTT]);
 
   const solFrac=mod(marsLMSTval/24,1);
 
-  // Data source toggle (model vs SPICE)
-  const [dataSource,setDataSource] = useState<'model'|'spice'>('model');
-  const [spiceStatus,setSpiceStatus] = useState<'idle'|'loading'|'ok'|'error'>('idle');
-  const [rows,setRows] = useState<OrbitalRow[]>(circularRows(visualJDTT));
+  // Data source → ephemeris provider. The page samples it at the page tick; the map/table sample it every frame.
+  const [dataSource,setDataSource] = useState<DataSource>(boot.view.source);
+  const [spicePollMs,setSpicePollMs] = useState(boot.view.pollMs);
+  const [,setEphemVersion] = useState(0);
+  const baseProvider = useMemo<EphemerisProvider>(()=> dataSource==='spice'? createSpiceProvider(spicePollMs,()=>setEphemVersion(v=>v+1))
+    : modelProvider(dataSource==='kepler'? keplerRows : circularRows),[dataSource, spicePollMs]);
+  useEffect(()=>()=>baseProvider.dispose(),[baseProvider]);
+  // User small bodies (registry extension from pasted/imported elements) — persisted, appended to every data source
+  const [smallBodies,setSmallBodies]=useState<SmallBody[]>(boot.smallBodies);
+  useEffect(()=>{ try { localStorage.setItem(SMALL_BODIES_STORAGE_KEY,exportSmallBodies(smallBodies)); } catch { /* storage disabled or full */ } },[smallBodies]);
+  const provider = useMemo(()=>withSmallBodies(baseProvider,smallBodies),[baseProvider, smallBodies]);
+  useEffect(()=>{ provider.prefetch(simMs, animateOrbits? orbitSpeedScale : 0); },[provider, simMs, animateOrbits, orbitSpeedScale]);
+  const rows = provider.rowsAt(simMs);
+  const spiceStatus = provider.statusAt(simMs);
 
-  // Build rows whenever time or source changes
-  useEffect(()=>{
-    const bodies = getOrbitalBodies().map(b=>b.name);
-    const epochISO = new Date().toISOString();
-    if (dataSource==='spice') {
-      setSpiceStatus('loading');
-      fetchSpiceStates(epochISO, bodies)
-        .then(map=>{
-          const merged = getOrbitalBodies().map(b=>{
-            const m = map[b.name];
-            if (m) {
-              const v = speedKmPerSec(b.a_AU,b.T_days); // keep mean v for now (backend can return true |v|)
-              return { name:b.name, a:b.a_AU, theta:m.thetaDeg, x:m.x_AU, y:m.y_AU, v, T:b.T_days } as OrbitalRow;
-            }
-            return null;
-          }).filter(Boolean) as OrbitalRow[];
-          if (merged.length) { setRows(merged); setSpiceStatus('ok'); } else { setRows(circularRows(visualJDTT)); setSpiceStatus('error'); }
-        })
-        .catch(()=>{ setRows(circularRows(visualJDTT)); setSpiceStatus('error'); });
-    } else {
-      setRows(circularRows(visualJDTT)); setSpiceStatus('idle');
-    }
-  },[dataSource, visualJDTT]);
+  // Earth‑centred geometry (same rows as the map/table) + solar‑conjunction exclusion angle
+  const [conjExclusionDeg,setConjExclusionDeg]=useState(3);
+  const earthViews=useMemo(()=>earthViewRows(rows,jdTT,conjExclusionDeg),[rows,jdTT,conjExclusionDeg]);
+
+  // Planetary event finder results (list + map markers); jumping pauses the clock at the event
+  const [planetEvents,setPlanetEvents]=useState<PlanetEvent[]>([]);
+  const [selectedEventId,setSelectedEventId]=useState<string|null>(null);
+  const jumpToEvent=(e:PlanetEvent)=>{ setAnimateOrbits(false); seekSim((jdUTCfromTT(e.jdTT)-2440587.5)*86400000,true); setSelectedEventId(planetEventId(e)); };
+  const eventMarkers=useMemo(()=>planetEvents.map(e=>({ id:planetEventId(e), label:`${e.body}: ${PLANET_EVENT_LABELS[e.kind]}`, x:e.x, y:e.y, active:planetEventId(e)===selectedEventId })),[planetEvents,selectedEventId]);
+
+  // Export dialog + "copy snapshot": every tile's current values as JSON, for bug reports
+  const [exportOpen,setExportOpen]=useState(false);
+  const [snapshotMsg,setSnapshotMsg]=useState<string|null>(null);
+  const snapshot=()=>{
+    const pinned=SITE_BODIES.flatMap(b=>siteStore.pinned[b]).map(id=>allSites.find(x=>x.id===id)).filter((x):x is Site=>!!x);
+    return {
+      app:'cosmic-clock', generatedUTC:new Date().toISOString(), simUTC:now.toISOString(), live:isLive, playing:animateOrbits, rate:orbitSpeedScale, timeZone:earthTz, dataSource, spiceStatus,
+      ...clockReadings(simMs,{ tz:earthTz, earthLat, lon:siteStore.lon, moonLon:moonSiteLon, missions }),
+      pinnedSites:siteReadings(pinned,simMs),
+      orbital:rows.map(({small,...r})=>small? { ...r, kind:small.kind, elements:small.elements } : r), earthViews, spice:provider.diagnostics?.(simMs) ?? null,
+      userAgent:navigator.userAgent,
+    };
+  };
+  const copySnapshot=()=>{
+    const text=JSON.stringify(snapshot(),null,2);
+    const done=(m:string)=>{ setSnapshotMsg(m); setTimeout(()=>setSnapshotMsg(null),2500); };
+    if(navigator.clipboard) navigator.clipboard.writeText(text).then(()=>done('Copied'),()=>{ downloadText(`cosmic-clock-snapshot-${now.toISOString().slice(0,19).replace(/:/g,'')}.json`,text,'application/json'); done('Saved'); });
+    else { downloadText(`cosmic-clock-snapshot-${now.toISOString().slice(0,19).replace(/:/g,'')}.json`,text,'application/json'); done('Saved'); }
+  };
 
   function runSelfChecks(){
-    const checks:Array<{name:string;pass:boolean;got:string;expected:string;note?:string}>=[];
-    const bodies=getOrbitalBodies();
-    const earth=bodies.find(b=>b.name==='Earth')!; const mercury=bodies.find(b=>b.name==='Mercury')!; const neptune=bodies.find(b=>b.name==='Neptune')!;
-    const vE=speedKmPerSec(earth.a_AU,earth.T_days), vM=speedKmPerSec(mercury.a_AU,mercury.T_days), vN=speedKmPerSec(neptune.a_AU,neptune.T_days);
-    function approx(name:string, got:number, expected:number, tol:number, note?:string){const pass=Math.abs(got-expected)<=tol; checks.push({name,pass,got:got.toFixed(2),expected:`${expected.toFixed(2)}±${tol}`,note});}
-    approx('Earth speed',vE,29.78,0.5,'mean'); approx('Mercury speed',vM,47.36,1.0,'fast'); approx('Neptune speed',vN,5.43,0.2,'slow');
-    const degPerDay=360/earth.T_days; approx('Earth deg/day',degPerDay,0.9856,0.02,'sidereal year');
-    const mtcNow=marsMTC_Hours(msd); const lmst0=marsLMST_Hours(msd,0); approx('Mars: |MTC-LMST@0°E|',Math.abs(mtcNow-lmst0),0,0.005,'~18 s');
+    // Published reference values (./referenceChecks — the same list `npm test` runs), then checks on the live app state
+    const digits=(tol:number)=>tol? Math.min(6,Math.max(0,Math.ceil(-Math.log10(tol))+1)) : 0;
+    const checks:Array<{name:string;pass:boolean;got:string;expected:string;note?:string}>=runReferenceChecks().map(r=>({
+      name:`${r.group}: ${r.name}`, pass:r.pass, got:r.got.toFixed(digits(r.tol)), expected:`${r.expected.toFixed(digits(r.tol))}${r.tol? `±${r.tol}` : ''}`, note:[r.unit,r.source].filter(Boolean).join(', '),
+    }));
+    const mtcNow=marsMTC_Hours(msd); const lmst0=marsLMST_Hours(msd,0); const mtcErr=Math.abs(mtcNow-lmst0); checks.push({name:'Mars: |MTC-LMST@0°E|',pass:mtcErr<=0.005,got:mtcErr.toFixed(4),expected:'<0.005',note:'~18 s'});
     const lmstE=earthMeanSolarTimeHours(now,earthLon); const lastE=earthApparentSolarTimeHours(now,earthLon); const eotH=equationOfTimeMinutes(now)/60; const diff=mod(lastE-lmstE-eotH,24); const err=Math.min(diff,24-diff); checks.push({name:'Earth: LAST-LMST≈EoT/60',pass:err<0.01,got:err.toFixed(4),expected:'<0.01',note:'~36 s'});
-    // New: atan2/angle wrap sanity
-    const ang = mod(toDeg(Math.atan2(1,0)),360); checks.push({name:'atan2(1,0) deg = 90', pass: Math.abs(ang-90)<1e-9, got: ang.toFixed(6), expected: '90.000000'});
-    // New: data source reachable/fallback
-    checks.push({name:`Data source: ${dataSource}`, pass: dataSource==='model' || spiceStatus!=='error', got: spiceStatus, expected: 'model or spice(ok)'});
+    // Data source reachable/fallback
+    checks.push({name:`Data source: ${dataSource}`, pass: dataSource!=='spice' || spiceStatus!=='error', got: spiceStatus, expected: 'model/kepler or spice(ok)'});
 
-    const expectedNames = getOrbitalBodies().map(b=>b.name).join(',');
+    const expectedNames = [...getOrbitalBodies().map(b=>b.name),...smallBodies.map(b=>b.name)].join(',');
     const rowNames = rows.map(r=>r.name).join(',');
-    checks.push({ name: 'Rows cover all planets', pass: rowNames === expectedNames, got: rowNames, expected: expectedNames });
+    checks.push({ name: 'Rows cover all registry bodies', pass: rowNames === expectedNames, got: rowNames, expected: expectedNames });
     checks.push({ name: 'Moons list non-empty', pass: Object.keys(MOONS).length > 0, got: String(Object.keys(MOONS).length), expected: '> 0' });
 
     setTests(checks);
@@ -410,6 +1744,40 @@ export default function CosmicClock(){
   },[tzQuery, allTZ]);
   const tzValid = useMemo(()=>isValidTimeZone(earthTz),[earthTz]);
 
+  // Permalink: the hash mirrors the view (epoch only when not live; while playing off‑live it holds the last seek epoch,
+  // so "Copy link" stamps the epoch on screen)
+  const [mapView,setMapView]=useState<MapView>(boot.view.map);
+  const [mapKey,setMapKey]=useState(0);
+  const view:ViewState={ epochMs:isLive? null : simAnchor.simMs, playing:animateOrbits, rate:orbitSpeedScale, tz:tzValid? earthTz : userTZ, compact, source:dataSource, pollMs:spicePollMs,
+    lon:siteStore.lon, earthLat, moonLon:moonSiteLon, map:mapView };
+  const viewHash=encodeViewState(view); const viewPrefs=prefsQuery(view);
+  useEffect(()=>{ if(window.location.hash.replace(/^#/,'')!==viewHash) window.history.replaceState(null,'',`#${viewHash}`); },[viewHash]);
+  const bootPrefs=useRef<string|null>(boot.prefsQuery);
+  useEffect(()=>{
+    if(viewPrefs===bootPrefs.current) return; // unchanged since load — a shared link doesn't become your defaults
+    bootPrefs.current=null;
+    try { localStorage.setItem(PREFS_STORAGE_KEY,viewPrefs); } catch { /* storage disabled or full */ }
+  },[viewPrefs]);
+  // A link pasted into this tab only changes the hash — apply it like a fresh load
+  useEffect(()=>{
+    const onHash=()=>{
+      const hash=window.location.hash.replace(/^#/,''); if(hash===viewHash) return;
+      const {view:v,invalid}=parseViewState(hash,{...view,epochMs:null},rows.map(r=>r.name)); // no t = live, as on load
+      if(v.epochMs===null) goLive(); else seekSim(v.epochMs,true);
+      setEarthTz(v.tz); setCompact(v.compact); setDataSource(v.source); setSpicePollMs(v.pollMs); setOrbitSpeedScale(v.rate); setAnimateOrbits(v.playing);
+      setSiteStore(st=>({...st,lon:v.lon,earthLat:v.earthLat})); setMoonSiteLon(v.moonLon);
+      setMapView(v.map); setMapKey(k=>k+1); setLinkInvalid(invalid);
+    };
+    window.addEventListener('hashchange',onHash); return ()=>window.removeEventListener('hashchange',onHash);
+  });
+  const [linkMsg,setLinkMsg]=useState<string|null>(null);
+  const copyLink=()=>{
+    const done=(m:string)=>{ setLinkMsg(m); setTimeout(()=>setLinkMsg(null),2500); };
+    window.history.replaceState(null,'',`#${encodeViewState({...view,epochMs:isLive? null : currentSimMs()})}`);
+    if(navigator.clipboard) navigator.clipboard.writeText(window.location.href).then(()=>done('Link copied'),()=>done('Copy failed'));
+    else done('Copy failed');
+  };
+
   return (
     <div className="min-h-screen bg-slate-100 text-slate-900">
       <SpinStyle/>
@@ -417,10 +1785,23 @@ export default function CosmicClock(){
         <header className="flex flex-wrap gap-3 justify-between items-center mb-4">
           <h1 className="text-xl sm:text-2xl font-semibold">Cosmic Clock — Multi‑Body (v1.3 PRE‑PROD)</h1>
           <div className="flex items-center gap-3 text-xs sm:text-sm">
-            <span className="text-slate-700">UTC {utcDateStr} • {new Intl.DateTimeFormat('en-GB',{timeZone:'UTC',hour:'2-digit',minute:'2-digit',second:'2-digit',hour12:false}).format(now)}</span>
+            <span className={isLive?'text-slate-700':'text-amber-800'}>{isLive?'':'SIM '}UTC {utcDateStr} • {new Intl.DateTimeFormat('en-GB',{timeZone:'UTC',hour:'2-digit',minute:'2-digit',second:'2-digit',hour12:false}).format(now)}</span>
+            <button className="rounded-xl border border-slate-300 px-3 py-1.5 text-xs bg-white hover:bg-slate-50" title="Copy a link that reproduces this view (epoch, speed, time zone, longitudes, data source, map)" onClick={copyLink}>{linkMsg ?? 'Copy link'}</button>
+            <button className="rounded-xl border border-slate-300 px-3 py-1.5 text-xs bg-white hover:bg-slate-50" onClick={()=>setExportOpen(true)}>Export…</button>
+            <button className="rounded-xl border border-slate-300 px-3 py-1.5 text-xs bg-white hover:bg-slate-50" title="Copy every tile's current values as JSON (for bug reports)" onClick={copySnapshot}>{snapshotMsg ?? 'Copy snapshot'}</button>
             <button className="rounded-xl border border-slate-300 px-3 py-1.5 text-xs bg-white hover:bg-slate-50" onClick={()=>setCompact(v=>!v)}>{compact?'Expanded':'Compact'}</button>
           </div>
         </header>
+        {linkInvalid.length>0 && (
+          <div className="mb-3 flex items-start justify-between gap-3 rounded-xl border border-amber-300 bg-amber-50 px-3 py-2 text-xs text-amber-900" role="status">
+            <span>This link had invalid values that were ignored (your saved settings were used instead): <span className="font-mono">{linkInvalid.join(', ')}</span></span>
+            <button className="text-amber-700 hover:text-amber-900" title="Dismiss" onClick={()=>setLinkInvalid([])}>✕</button>
+          </div>
+        )}
+        {exportOpen && <ExportDialog rowsAt={provider.rowsAt} source={dataSource} simMs={simMs} sites={allSites} defaultSiteIds={SITE_BODIES.flatMap(b=>siteStore.pinned[b])} missions={missions} onClose={()=>setExportOpen(false)}/>}
+
+        <TimeControls simMs={simMs} live={isLive} playing={animateOrbits} rate={orbitSpeedScale} scrubCenterMs={scrubCenterMs}
+          onSeek={seekSim} onStep={stepSim} onPlaying={setSimPlaying} onRate={setSimRate} onLive={goLive}/>
 
         <div className={`grid grid-cols-1 ${compact?'lg:grid-cols-3':'lg:grid-cols-2'} gap-4`}>
           {/* Earth */}
@@ -444,11 +1825,22 @@ export default function CosmicClock(){
             </div>
             <div className="mt-3 text-sm">EoT: {eotMin.toFixed(1)} min</div>
             <div className="mt-2"><EotSparkline year={now.getUTCFullYear()} /></div>
+            <div className="mt-3">
+              <div className="text-xs mb-1">Sun at site (times in {tzValid? earthTz : 'UTC'})</div>
+              <SunTable sun={sunDay} tz={tzValid? earthTz : 'UTC'}/>
+              <div className="mt-2 text-sm">Altitude {sunAltAz.alt.toFixed(2)}° • Azimuth {sunAltAz.az.toFixed(2)}°</div>
+              <div className="mt-2"><DayNightBar date={now} lat={earthLat} lon={earthLon}/></div>
+              <div className="text-[11px] text-slate-500 mt-1">Local mean solar day, midnight → midnight: day / civil / nautical / astronomical twilight / night.</div>
+            </div>
             <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <label className="text-xs">Latitude (°N)
+                <input type="number" className="mt-1 w-full rounded-xl border border-slate-300 px-3 py-2 bg-white" value={earthLat} min={-90} max={90} step={0.0001} onChange={e=>setEarthLat(Math.max(-90,Math.min(90,Number(e.target.value))))}/>
+              </label>
               <label className="text-xs">Longitude (°E)
                 <input type="number" className="mt-1 w-full rounded-xl border border-slate-300 px-3 py-2 bg-white" value={earthLon} step={0.0001} onChange={e=>setEarthLon(Number(e.target.value))}/>
               </label>
             </div>
+            {siteStrip('Earth')}
           </section>
 
           {/* Mars */}
@@ -457,8 +1849,20 @@ export default function CosmicClock(){
             <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 xl:grid-cols-3">
               <TimeTile label="MTC (0°E)" value={formatHMS24(mtc)}/>
               <TimeTile label="LMST" value={formatHMS24(marsLMSTval)}/>
+              <TimeTile label="LTST" value={formatHMS24(marsLTSTval)}/>
+            </div>
+            <div className="mt-3 grid gap-3 grid-cols-1 sm:grid-cols-2 xl:grid-cols-3">
               <StatTile label="Sol Number" value={`${solNumber}`}/>
+              <StatTile label="Ls (areocentric)" value={`${marsSunNow.Ls.toFixed(2)}°`}/>
+              <StatTile label="Mars Year (Clancy)" value={`MY ${marsYearNow}`}/>
             </div>
+            <div className="mt-3 grid gap-2 grid-cols-1 sm:grid-cols-2 text-sm">
+              <div>Season: N {marsSeason.north} • S {marsSeason.south}</div>
+              <div>Heliocentric distance: {marsSunNow.rAU.toFixed(4)} AU</div>
+              <div>EoT: {(marsSunNow.eotHours*60).toFixed(1)} min (LTST − LMST)</div>
+              <div>Subsolar latitude: {marsSunNow.declDeg.toFixed(2)}°</div>
+            </div>
+            <div className="mt-2"><div className="text-[11px] text-slate-600 mb-1">Mars EoT over MY {marsYearNow} (Ls 0 → 360)</div><MarsEotSparkline yearStartJDTT={marsYearStart} jdTT={jdTT}/></div>
             <div className="mt-3">
               <div className="text-xs mb-1">Sol progress (LMST/24)</div>
               <ProgressSpark value={solFrac} />
@@ -467,36 +1871,105 @@ export default function CosmicClock(){
               <label className="text-xs">Longitude (°E)
                 <input type="number" className="mt-1 w-full rounded-xl border border-slate-300 px-3 py-2 bg-white" value={marsLon} step={0.01} onChange={e=>setMarsLon(Number(e.target.value))}/>
               </label>
-              <div className="text-xs self-end">MSD {msd.toFixed(5)}</div>
+              <div className="text-xs self-end">MSD {msd.toFixed(5)} • TT−UTC {ttMinusUtcSeconds(jdUTC).toFixed(3)} s</div>
             </div>
+            {siteStrip('Mars')}
           </section>
 
-          {/* Other planets (Mars-style) */}
-          <PlanetTiles name="Moon" ct={moonCT} lmst={moonLMST} longitude={moonLon} onLon={setMoonLon} dayLabel="Lunar day #" dayNumber={moonDayNum}/>
-          <PlanetTiles name="Mercury" ct={mercuryCT} lmst={mercuryLMST} longitude={mercuryLon} onLon={setMercuryLon} dayLabel="Solar day #" dayNumber={mercuryDayNum}/>
-          <PlanetTiles name="Venus" ct={venusCT} lmst={venusLMST} longitude={venusLon} onLon={setVenusLon} dayLabel="Solar day # (retrograde)" dayNumber={venusDayNum}/>
-          <PlanetTiles name="Jupiter" ct={jupiterCT} lmst={jupiterLMST} longitude={jupiterLon} onLon={setJupiterLon} dayLabel="Rotation # (Sys III)" dayNumber={jupiterDayNum}/>
+          {/* Moon and other planets (Mars-style), generated from the body registry */}
+          {solarTiles.map(({body:b,lon,solar:s})=> (
+            <PlanetTiles key={b.name} name={bodyLabel(b)} ct={s.ct} ltst={s.ltst} subsolar={s.sub} longitude={lon} onLon={setBodyLon(b.name)} dayLabel={b.dayLabel} dayNumber={s.day}>
+              {siteStrip(b.name)}
+              {b.name==='Moon' && <MoonPhasePanel jdTT={jdTT} tz={tzValid? earthTz : 'UTC'}/>}
+            </PlanetTiles>
+          ))}
         </div>
 
+        {/* Mission clocks & shift planner */}
+        <section className="mt-4 p-4 rounded-2xl border border-slate-300 bg-white shadow-md">
+          <h3 className="font-semibold mb-2">Mission clocks</h3>
+          <MissionClocks missions={missions} msd={msd} eotHours={marsSunNow.eotHours} onRemove={id=>setMissionStore(s=>({...s,custom:s.custom.filter(m=>m.id!==id),selected:s.selected===id? DEFAULT_MISSION_STORE.selected : s.selected}))}/>
+          <AddMissionForm marsSites={allSites.filter(s=>s.body==='Mars')} onAdd={m=>setMissionStore(s=>({...s,custom:[...s.custom,m]}))}/>
+          <h3 className="font-semibold mt-4 mb-2">Earth ↔ Mars shift planner</h3>
+          <ShiftPlanner missions={missions} store={missionStore} setStore={setMissionStore} fromMs={simMs} tz={tzValid? earthTz : 'UTC'}/>
+          <p className="text-[11px] text-slate-600 mt-2">Mission sols count LMST midnights at the landing longitude since landing (landing sol = Sol 0 for Curiosity, InSight and Perseverance; set the landing sol # for missions that start at 1). LTST windows are converted with the Mars24 equation of time at mid‑sol. Earth times are shown in {tzValid? earthTz : 'UTC'}; overlap is the time each window shares with Earth work hours.</p>
+        </section>
+
+        {/* Alarms */}
+        <section className="mt-4 p-4 rounded-2xl border border-slate-300 bg-white shadow-md">
+          <h3 className="font-semibold mb-2">Alarms</h3>
+          <AlarmsPanel simMs={simMs} anchor={simAnchor} playing={animateOrbits} tz={tzValid? earthTz : 'UTC'} sites={allSites} missions={missions}/>
+          <p className="text-[11px] text-slate-600 mt-2">Triggers are solved on each body's own clock: Mars times and mission sols from Mars24 (LTST via the equation of time), lunar/planetary solar time from the IAU rotation models, Earth Sun events from the NOAA algorithm for the site, moon events from the satellite ephemeris and phases from Meeus — repeats follow that clock (sols, lunar days, lunations), not fixed Earth intervals. Alarms follow the simulation clock and fire while it plays through a trigger; seeking or stepping re‑plans without firing skipped alarms. Alarms are saved in this browser.</p>
+        </section>
+
+        {/* Site catalog */}
+        <section className="mt-4 p-4 rounded-2xl border border-slate-300 bg-white shadow-md">
+          <h3 className="font-semibold mb-2">Site catalog</h3>
+          <SiteCatalogPanel custom={siteStore.custom} onAdd={s=>addSites([s])} onRemove={removeSite} onImport={addSites}/>
+          <p className="text-[11px] text-slate-600 mt-2">Built‑in sites (landing sites, DSN complexes) ship with the app; custom sites, pinned sites and each panel's longitude are saved in this browser. Use "Site catalog…" in a panel to jump to a site or pin it beside the others. Export/import shares custom sites as a JSON file (body, name, lat °N, lon °E per site); imported names replace custom sites with the same body and name.</p>
+        </section>
+
+        <TimeScalesPanel jdUTC={jdUTC} lon={earthLon}/>
+
         {/* Major moons section */}
         <section className="mt-4 p-4 rounded-2xl border border-slate-300 bg-white shadow-md">
-          <h3 className="font-semibold mb-2">Major Moons (educational rotation model)</h3>
+          <h3 className="font-semibold mb-2">Major Moons (IAU rotation model)</h3>
           <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
             {Object.keys(MOONS).map((name)=>{
-              const ct = (moonCTmap as any)[name] as number; const day = (moonDaymap as any)[name] as number;
+              const day = moonDaymap[name]; const sub = subsolarNow[name]; const lon = moonSiteLon[name] ?? 0;
               return (
                 <div key={name} className="rounded-2xl border border-slate-300 bg-white shadow-sm p-4">
                   <h4 className="font-semibold text-slate-900 mb-2 leading-tight">{name}</h4>
                   <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 xl:grid-cols-3">
-                    <TimeTile label="Rotation CT" value={formatHMS24(ct)}/>
+                    <TimeTile label="LTST (0°E)" value={formatHMS24(localSolarTimeHours(name,sub.lonDeg,0))}/>
                     <StatTile label="Rotation count #" value={`${day}`}/>
-                    <TimeTile label="Illustrative LMST" value={formatHMS24(ct)}/>
+                    <TimeTile label={`LTST @ ${lon}°E`} value={formatHMS24(localSolarTimeHours(name,sub.lonDeg,lon))}/>
                   </div>
-                  <p className="text-[11px] text-slate-600 mt-2">LMST here is illustrative (24h dial mapped to rotation). For physically accurate subsolar times, a SPICE backend is required.</p>
+                  <div className="mt-2 text-xs text-slate-600">Subsolar point: {sub.lonDeg.toFixed(2)}°E, {sub.latDeg.toFixed(2)}°</div>
+                  <label className="mt-2 block text-xs text-slate-600">Longitude (°E)
+                    <input type="number" className="mt-1 w-full rounded-xl border border-slate-300 px-3 py-1.5 bg-white text-slate-900" value={lon} onChange={e=>setMoonSiteLon(m=>({...m,[name]:Number(e.target.value)}))}/>
+                  </label>
                 </div>
               )
             })}
           </div>
+          <p className="text-[11px] text-slate-600 mt-2">Local true solar time from IAU WGCCRE pole/prime‑meridian elements and the Sun's direction from the parent planet (Keplerian model, no light‑time correction). Synchronous moons keep the same subsolar longitude pattern as their orbit.</p>
+        </section>
+
+        {/* Galilean & Saturnian configurations */}
+        <section className="mt-4 p-4 rounded-2xl border border-slate-300 bg-white shadow-md">
+          <h3 className="font-semibold mb-2">Satellite configurations (as seen from Earth)</h3>
+          <div className="grid gap-4 grid-cols-1 xl:grid-cols-2">
+            <SatelliteSystemPanel system="Jupiter" jdTT={jdTT} tz={tzValid? earthTz : 'UTC'}/>
+            <SatelliteSystemPanel system="Saturn" jdTT={jdTT} tz={tzValid? earthTz : 'UTC'}/>
+          </div>
+          <p className="text-[11px] text-slate-600 mt-2">Galilean moons: Meeus ch. 44 low‑accuracy theory (≈ minutes). Saturnian moons: circular orbits phased from the IAU prime meridian of each synchronous moon (≈ tens of minutes; ring shadowing ignored). Shadows use a cylindrical umbra; times are light‑time corrected and shown in {tzValid? earthTz : 'UTC'}.</p>
+        </section>
+
+        {/* Geometry from Earth */}
+        <section className="mt-4 p-4 rounded-2xl border border-slate-300 bg-white shadow-md">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold">Geometry from Earth</h3>
+            <label className="flex items-center gap-2 text-xs text-slate-600">Solar‑conjunction exclusion (°)
+              <input type="number" min={0} max={45} step={0.5} className="w-20 rounded-lg border border-slate-300 bg-white px-2 py-1 text-slate-900" value={conjExclusionDeg} onChange={e=>setConjExclusionDeg(Math.min(45,Math.max(0,Number(e.target.value)||0)))}/>
+            </label>
+          </div>
+          <EarthViewGrid views={earthViews}/>
+          <p className="text-[11px] text-slate-600 mt-2">Computed from the same heliocentric rows as the table below (current data source: {dataSource}). Elongation is the Sun–Earth–body angle (E = evening, W = morning); phase angle is Sun–body–Earth. Light time is geometric (no aberration). Magnitudes follow Mallama & Hilton (2018); Saturn includes the rings via the ring opening angle. Rows shaded red are inside the exclusion angle, where communications and observations are typically suspended.</p>
+        </section>
+
+        {/* Planetary events */}
+        <section className="mt-4 p-4 rounded-2xl border border-slate-300 bg-white shadow-md">
+          <h3 className="font-semibold mb-2">Planetary events</h3>
+          <PlanetEventsPanel startMs={simMs} events={planetEvents} onEvents={e=>{ setPlanetEvents(e); setSelectedEventId(null); }} selectedId={selectedEventId} onJump={jumpToEvent} tz={tzValid? earthTz : 'UTC'}/>
+          <p className="text-[11px] text-slate-600 mt-2">Oppositions, conjunctions, greatest elongations (Mercury/Venus), perihelia/aphelia and retrograde stations from the Keplerian model (geometric, no light‑time or aberration), found by a daily scan and bisected to under a minute. Model error is minutes to hours depending on the body; Earth's apsides are those of the Earth–Moon barycentre. Results are marked on the heliocentric map — click a marker or "Jump" to pause the clock at that instant.</p>
+        </section>
+
+        {/* User small bodies */}
+        <section className="mt-4 p-4 rounded-2xl border border-slate-300 bg-white shadow-md">
+          <h3 className="font-semibold mb-2">Dwarf planets, asteroids & comets</h3>
+          <SmallBodiesPanel bodies={smallBodies} onChange={setSmallBodies}/>
+          <p className="text-[11px] text-slate-600 mt-2">Paste or import osculating elements as JSON (a/M/epoch or q/tp; JPL SBDB field names work) or as MPC one‑line records from MPCORB.DAT or CometEls.txt. Bodies are propagated as two‑body orbits around the Sun (elliptic, parabolic or hyperbolic), so accuracy degrades away from the element epoch; they join the table, the Earth geometry, exports and the map (comets dashed, with an anti‑sunward tail). Asteroid magnitudes use H, G. Saved in this browser; names must not clash with built‑in bodies.</p>
         </section>
 
         {/* Orbital metrics */}
@@ -504,38 +1977,36 @@ export default function CosmicClock(){
           <div className="flex items-center justify-between mb-2">
             <h3 className="font-semibold">Heliocentric position & speed</h3>
             <div className="flex items-center gap-3 text-xs">
-              <button className="rounded-lg border border-slate-300 px-2 py-1 bg-white hover:bg-slate-50" onClick={()=>setAnimateOrbits(v=>!v)}>{animateOrbits? 'Pause' : 'Play'}</button>
-              <span>Speed:</span>
-              <select className="rounded-lg border border-slate-300 bg-white px-2 py-1" value={orbitSpeedScale} onChange={e=>setOrbitSpeedScale(Number(e.target.value))}>
-                <option value={1}>1× (realtime)</option>
-                <option value={10000}>10,000×</option>
-                <option value={1000000}>1,000,000×</option>
-              </select>
               <div className="flex items-center gap-2">
                 <label className="text-slate-600">Data source:</label>
-                <select className="rounded-lg border border-slate-300 bg-white px-2 py-1" value={dataSource} onChange={e=>setDataSource(e.target.value as any)}>
+                <select className="rounded-lg border border-slate-300 bg-white px-2 py-1" value={dataSource} onChange={e=>setDataSource(e.target.value as DataSource)}>
                   <option value="model">Circular model</option>
+                  <option value="kepler">Keplerian elements</option>
                   <option value="spice">SPICE (backend)</option>
                 </select>
                 <span className={`text-[11px] ${dataSource==='spice'?(spiceStatus==='ok'?'text-emerald-700':spiceStatus==='loading'?'text-amber-700':'text-rose-700'):'text-slate-500'}`}>
-                  {dataSource==='spice'? (spiceStatus==='ok'? 'SPICE: connected' : spiceStatus==='loading'? 'SPICE: loading…' : 'SPICE: unavailable — fallback') : 'model'}
+                  {dataSource==='spice'? (spiceStatus==='ok'? 'SPICE: connected' : spiceStatus==='loading'? 'SPICE: loading…' : 'SPICE: unavailable — Keplerian fallback') : 'model'}
                 </span>
               </div>
+              {dataSource==='spice' && (
+                <div className="flex items-center gap-2">
+                  <label className="text-slate-600">Poll every:</label>
+                  <select className="rounded-lg border border-slate-300 bg-white px-2 py-1" value={spicePollMs} onChange={e=>setSpicePollMs(Number(e.target.value))}>
+                    {[1000,2000,5000,10000,30000,60000].map(ms=> <option key={ms} value={ms}>{ms/1000} s</option>)}
+                  </select>
+                </div>
+              )}
             </div>
           </div>
-          <OrbitalGrid rows={rows} animate={animateOrbits} speedScale={orbitSpeedScale} />
-          <p className="text-[11px] text-slate-600 mt-2">Angles θ are mean anomalies since J2000 (TT) for the circular model; when SPICE is selected, positions come from your backend state vectors (converted to AU). Mini‑plots show current (x,y) direction from the Sun. Use the interactive map below to pan/zoom.</p>
-
-          <div className="mt-4 flex flex-col items-start gap-2">
-            <div className="text-xs text-slate-700">Interactive heliocentric map (drag to pan, mouse‑wheel to zoom)</div>
-            <HeliocentricMap rows={rows} />
-          </div>
+          {dataSource==='spice' && provider.diagnostics && <SpiceStatusPanel status={spiceStatus} diag={provider.diagnostics(simMs)}/>}
+          <OrbitalViews key={mapKey} provider={provider} anchor={simAnchor} playing={animateOrbits} rate={orbitSpeedScale} mapView={mapView} onMapView={setMapView} siteLon={siteStore.lon}
+            markers={eventMarkers} onMarker={id=>{ const e=planetEvents.find(p=>planetEventId(p)===id); if(e) jumpToEvent(e); }}/>
 
           <div className="mt-4">
             <button onClick={runSelfChecks} className="rounded-xl border border-slate-300 px-3 py-2 text-sm bg-white hover:bg-slate-50">Run self‑checks</button>
             {tests.length>0 && (
               <div className="mt-3 rounded-2xl border border-slate-300 bg-slate-50 p-3">
-                <div className="text-sm font-medium mb-2">Self‑check results</div>
+                <div className="text-sm font-medium mb-2">Self‑check results — {tests.filter(t=>t.pass).length}/{tests.length} pass</div>
                 <ul className="text-sm space-y-1">
                   {tests.map((t,i)=> (
                     <li key={i} className={t.pass?"text-emerald-700":"text-rose-700"}>
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { alarmSweep, nextAlarmMs, type Alarm, type AlarmSpec, type AlarmTick } from "./alarms";
+import { findSatelliteEvents, jdTTatMs, msFromJdTT } from "./astroCore";
+
+const fullMoon=(repeat:Alarm['repeat']): Alarm=>({ id:'a', enabled:true, repeat, spec:{ kind:'moon-phase', phase:180 }, lastFiredMs:null, snoozeUntilMs:null });
+const FM=nextAlarmMs({ kind:'moon-phase', phase:180 },Date.parse('2025-01-10T00:00:00Z'),[])!;
+const anchor={ simMs:FM-3600000, realMs:1_700_000_000_000 };
+const tick=(simMs:number,a=anchor,playing=true): AlarmTick=>({ simMs, anchor:a, playing });
+
+describe('alarm sweep', ()=>{
+  it('fires after a 60 s tick gap (throttled background tab) on the same anchor', ()=>{
+    const alarm=fullMoon('once');
+    expect(alarmSweep(tick(FM-30000),tick(FM+30000),[{ alarm, atMs:FM }],[])).toEqual([{ alarm, atMs:FM }]);
+  });
+  it('re‑plans instead of firing after a seek or while paused', ()=>{
+    const alarm=fullMoon('once'), upcoming=[{ alarm, atMs:FM }];
+    expect(alarmSweep(tick(FM-30000),tick(FM+30000,{ simMs:FM+30000, realMs:anchor.realMs+60000 }),upcoming,[])).toBeNull();
+    expect(alarmSweep(tick(FM-30000),tick(FM+30000,anchor,false),upcoming,[])).toBeNull();
+    expect(alarmSweep(tick(FM+30000),tick(FM-30000),upcoming,[])).toBeNull();
+  });
+  it('fires every occurrence a long gap at high speed sweeps past', ()=>{
+    const from=FM-1000, to=from+60*86400000; // 60 s at 86 400×
+    const expected=[FM]; for(let t=nextAlarmMs({ kind:'moon-phase', phase:180 },FM,[]); t!==null && t<=to; t=nextAlarmMs({ kind:'moon-phase', phase:180 },t,[])) expected.push(t);
+    expect(expected.length).toBeGreaterThan(1);
+    expect(alarmSweep(tick(from),tick(to),[{ alarm:fullMoon('every'), atMs:FM }],[])!.map(d=>d.atMs)).toEqual(expected);
+    expect(alarmSweep(tick(from),tick(to),[{ alarm:fullMoon('once'), atMs:FM }],[])).toHaveLength(1);
+  });
+});
+
+describe('satellite event alarms', ()=>{
+  const from=Date.parse('2025-01-10T00:00:00Z'), H=3600000;
+  it('finds the next event start and each later one', ()=>{
+    const spec: AlarmSpec={ kind:'sat-event', system:'Jupiter', moon:'Io', event:'transit' };
+    const fresh=findSatelliteEvents('Jupiter',jdTTatMs(from),96).filter(e=>e.moon==='Io' && e.kind==='transit' && !e.inProgress).map(e=>msFromJdTT(e.start));
+    const t1=nextAlarmMs(spec,from,[])!;
+    expect(Math.abs(t1-fresh[0])).toBeLessThan(10000);
+    expect(nextAlarmMs(spec,from+(t1-from)/2,[])).toBe(t1); // a step forward reuses the scan
+    const t2=nextAlarmMs(spec,t1,[])!;
+    expect(Math.abs(t2-fresh[1])).toBeLessThan(10000);
+    expect((t2-t1)/H).toBeCloseTo(42.5,0); // Io's synodic period
+  });
+  it('keeps finding nothing out of season as the clock steps on', ()=>{
+    const spec: AlarmSpec={ kind:'sat-event', system:'Saturn', moon:'Iapetus', event:'transit' }; // none during 2025
+    for(const t of [from,from+H,from+2*86400000,from+30*86400000]) expect(nextAlarmMs(spec,t,[])).toBeNull();
+  });
+});
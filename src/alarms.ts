@@ -0,0 +1,142 @@
+// Cross‑body alarms — headless planning shared by the app's alarm panel (storage and UI stay in App.tsx)
+// • nextAlarmMs: first trigger of an alarm after an instant, solved on the alarm body's own clock
+// • alarmSweep: which triggers a page tick of continuous playback swept past, however long the tick gap was
+import {
+  mod, julianDateUTC, parseHHMM, earthSunDay, type SunDay, marsSolDate, marsSun, SOLAR_DAY_HOURS, type SolarBody, bodyDef,
+  subsolarPoint, localSolarTimeHours, moonPhaseTime, SATELLITE_SYSTEMS, SAT_EVENT_LABELS, type SatelliteSystem, type SatEventKind,
+  satEventsInWindow, jdTTatMs, msFromJdTT, type Mission, localMsd, utcMsAtLocalMsd,
+} from "./astroCore";
+
+// ===== Alarm specs =====
+// Each alarm is solved on its own body's clock (Mars24 sols, IAU rotation, NOAA Sun, Meeus phases, satellite events) — never as a fixed Earth period.
+export type AlarmSpec =
+  | { kind:'mars-time'; basis:'LMST'|'LTST'; time:string; lon:number; place:string }
+  | { kind:'body-time'; body:SolarBody; time:string; lon:number; place:string }
+  | { kind:'earth-sun'; event:EarthSunEvent; offsetMin:number; lat:number; lon:number; place:string }
+  | { kind:'sat-event'; system:SatelliteSystem; moon:string; event:SatEventKind }
+  | { kind:'mission-sol'; missionId:string; sol:number|null }
+  | { kind:'moon-phase'; phase:0|90|180|270 };
+export type EarthSunEvent = 'sunrise'|'sunset'|'civil-dawn'|'civil-dusk'|'noon';
+export const EARTH_SUN_EVENT_LABELS: Record<EarthSunEvent,string> = { sunrise:'sunrise', sunset:'sunset', 'civil-dawn':'civil dawn', 'civil-dusk':'civil dusk', noon:'solar noon' };
+export const MOON_PHASE_ALARM_LABELS: Record<0|90|180|270,string> = { 0:'New Moon', 90:'First Quarter', 180:'Full Moon', 270:'Last Quarter' };
+export type Alarm = { id:string; enabled:boolean; repeat:'once'|'every'; spec:AlarmSpec; lastFiredMs:number|null; snoozeUntilMs:number|null };
+const SAT_ALARM_HORIZON_DAYS=40; // covers Titan's 16‑day orbit; Iapetus events only show up in season
+
+export function isAlarmSpec(s:unknown): s is AlarmSpec {
+  const o=s as Record<string,unknown>|null; if(!o || typeof o!=='object') return false;
+  const hhmm=(v:unknown)=>typeof v==='string' && parseHHMM(v)!==null; const lon=(v:unknown)=>typeof v==='number' && Number.isFinite(v);
+  switch(o.kind){
+    case 'mars-time': return (o.basis==='LMST'||o.basis==='LTST') && hhmm(o.time) && lon(o.lon);
+    case 'body-time': return typeof o.body==='string' && o.body in SOLAR_DAY_HOURS && hhmm(o.time) && lon(o.lon);
+    case 'earth-sun': return typeof o.event==='string' && o.event in EARTH_SUN_EVENT_LABELS && lon(o.offsetMin) && lon(o.lat) && lon(o.lon);
+    case 'sat-event': return (o.system==='Jupiter'||o.system==='Saturn') && typeof o.moon==='string' && o.moon in SATELLITE_SYSTEMS[o.system].moons && typeof o.event==='string' && o.event in SAT_EVENT_LABELS;
+    case 'mission-sol': return typeof o.missionId==='string' && (o.sol===null || Number.isInteger(o.sol));
+    case 'moon-phase': return o.phase===0||o.phase===90||o.phase===180||o.phase===270;
+    default: return false;
+  }
+}
+
+// Repeat rule in the body's own units
+export function alarmRepeatLabel(spec:AlarmSpec){
+  switch(spec.kind){
+    case 'mars-time': case 'mission-sol': return 'every sol';
+    case 'body-time': return `every ${bodyDef(spec.body)?.dayName ?? `${spec.body} solar day`}`;
+    case 'earth-sun': return 'every day';
+    case 'sat-event': return 'every occurrence';
+    case 'moon-phase': return 'every lunation';
+  }
+}
+export function describeAlarm(spec:AlarmSpec,missions:Mission[]){
+  const at=(place:string,lon:number)=>place || `${Math.abs(lon).toFixed(2)}°${lon<0?'W':'E'}`;
+  switch(spec.kind){
+    case 'mars-time': return `Mars ${spec.basis} ${spec.time} at ${at(spec.place,spec.lon)}`;
+    case 'body-time': return `${spec.body} local solar time ${spec.time} at ${at(spec.place,spec.lon)}`;
+    case 'earth-sun': { const off=spec.offsetMin? ` ${spec.offsetMin>0?'+':'−'}${Math.abs(spec.offsetMin)} min` : ''; return `Earth ${EARTH_SUN_EVENT_LABELS[spec.event]}${off} at ${at(spec.place,spec.lon)}`; }
+    case 'sat-event': return `${spec.moon} ${SAT_EVENT_LABELS[spec.event].toLowerCase()} begins`;
+    case 'mission-sol': { const m=missions.find(x=>x.id===spec.missionId); return `${m?.name ?? 'Unknown mission'} ${spec.sol===null? 'each sol' : `Sol ${spec.sol}`} starts`; }
+    case 'moon-phase': return MOON_PHASE_ALARM_LABELS[spec.phase];
+  }
+}
+
+// Per spec: the first event after fromMs (atMs), or none through window toW. A re‑plan from a later time reuses it, so
+// steps and forward seeks only search the windows the horizon newly reaches instead of rescanning 40 days of a rare event
+const satScanMemo=new Map<string,{ fromMs:number; atMs:number|null; toW:number }>();
+function nextSatEventMs(spec:Extract<AlarmSpec,{ kind:'sat-event' }>,afterMs:number): number|null {
+  const key=`${spec.system}:${spec.moon}:${spec.event}`, m=satScanMemo.get(key);
+  const w0=Math.floor(jdTTatMs(afterMs)/2), last=w0+SAT_ALARM_HORIZON_DAYS/2;
+  if(m && afterMs>=m.fromMs && m.atMs!==null && m.atMs>afterMs) return m.atMs;
+  const known=m && afterMs>=m.fromMs && m.atMs===null && w0<=m.toW+1; // nothing after m.fromMs through m.toW, no gap
+  const fromMs=known? m.fromMs : afterMs;
+  for(let w=known? Math.max(w0,m.toW+1) : w0;w<=last;w++){
+    const ev=satEventsInWindow(spec.system,w).find(e=>e.moon===spec.moon && e.kind===spec.event && !e.inProgress && msFromJdTT(e.start)>afterMs);
+    if(ev){ satScanMemo.set(key,{ fromMs, atMs:msFromJdTT(ev.start), toW:w }); return msFromJdTT(ev.start); }
+  }
+  satScanMemo.set(key,{ fromMs, atMs:null, toW:known? Math.max(last,m.toW) : last });
+  return null;
+}
+
+// First trigger strictly after afterMs (UTC ms), or null if none within the search horizon
+export function nextAlarmMs(spec:AlarmSpec,afterMs:number,missions:Mission[]): number|null {
+  switch(spec.kind){
+    case 'mars-time': {
+      const h=parseHHMM(spec.time)!; const K=Math.floor(localMsd(marsSolDate(afterMs/86400000+2440587.5),spec.lon));
+      for(let i=0;i<3;i++){
+        let t=utcMsAtLocalMsd(K+i+h/24,spec.lon);
+        if(spec.basis==='LTST') for(let k=0;k<3;k++) t=utcMsAtLocalMsd(K+i+(h-marsSun(jdTTatMs(t)).eotHours)/24,spec.lon); // LMST = LTST − EoT
+        if(t>afterMs) return t;
+      }
+      return null;
+    }
+    case 'body-time': {
+      // Scan in 1/48 solar‑day steps for the first upward crossing, then bisect; local solar time is far from uniform
+      // on Mercury (the Sun briefly reverses near perihelion), so no mean‑rate shortcut
+      const h=parseHHMM(spec.time)!; const dayMs=Math.abs(SOLAR_DAY_HOURS[spec.body])*3600000; const step=dayMs/48;
+      const f=(ms:number)=>{ const sub=subsolarPoint(spec.body,jdTTatMs(ms)); return sub? mod(localSolarTimeHours(spec.body,sub.lonDeg,spec.lon)-h+12,24)-12 : NaN; };
+      let a=afterMs, fa=f(a); if(Number.isNaN(fa)) return null;
+      for(let i=0;i<72;i++){
+        const b=a+step, fb=f(b);
+        if(fa<0 && fb>=0 && fb-fa<6){ let lo=a, hi=b; while(hi-lo>500){ const mid=(lo+hi)/2; if(f(mid)<0) lo=mid; else hi=mid; } return hi; }
+        a=b; fa=fb;
+      }
+      return null;
+    }
+    case 'earth-sun': {
+      const pick=(d:SunDay)=>({ sunrise:d.rise.start, sunset:d.rise.end, 'civil-dawn':d.civil.start, 'civil-dusk':d.civil.end, noon:d.noon })[spec.event];
+      for(let d=-1;d<370;d++){ // polar day/night can suppress rise/set for months
+        const t=pick(earthSunDay(new Date(afterMs+d*86400000),spec.lat,spec.lon));
+        if(t!==null && t+spec.offsetMin*60000>afterMs) return t+spec.offsetMin*60000;
+      }
+      return null;
+    }
+    case 'sat-event': return nextSatEventMs(spec,afterMs);
+    case 'mission-sol': {
+      const m=missions.find(x=>x.id===spec.missionId); if(!m) return null;
+      if(spec.sol===null) return utcMsAtLocalMsd(Math.floor(localMsd(marsSolDate(afterMs/86400000+2440587.5),m.lon))+1,m.lon);
+      const landingK=Math.floor(localMsd(marsSolDate(julianDateUTC(new Date(m.landingUTC))),m.lon));
+      const t=utcMsAtLocalMsd(landingK+spec.sol-m.firstSol,m.lon); return t>afterMs? t : null;
+    }
+    case 'moon-phase': {
+      let jd=moonPhaseTime(jdTTatMs(afterMs),spec.phase,1); if(msFromJdTT(jd)<=afterMs) jd=moonPhaseTime(jd+1,spec.phase,1);
+      return msFromJdTT(jd);
+    }
+  }
+}
+
+// ===== Playback sweep =====
+// Playback is continuous while the sim clock keeps its anchor (seeks, steps, jumps and play/rate changes re‑anchor), so the
+// wall time between ticks doesn't matter: background tabs throttle timers to 1 s, then to once a minute.
+export type AlarmTick = { simMs:number; anchor:{ simMs:number; realMs:number }; playing:boolean };
+export const ALARM_SWEEP_MAX_PER_ALARM=24; // a long throttled gap at high speed can sweep many sols
+// Triggers in (prev.simMs, cur.simMs], oldest first — repeating alarms once per occurrence; null when the clock was re‑anchored
+export function alarmSweep(prev:AlarmTick,cur:AlarmTick,upcoming:Array<{ alarm:Alarm; atMs:number|null }>,missions:Mission[]){
+  const sameAnchor=prev.anchor.simMs===cur.anchor.simMs && prev.anchor.realMs===cur.anchor.realMs;
+  if(!cur.playing || !sameAnchor || cur.simMs<prev.simMs) return null;
+  const due:Array<{ alarm:Alarm; atMs:number }>=[];
+  for(const {alarm,atMs} of upcoming){
+    for(let t=atMs, k=0; t!==null && t>prev.simMs && t<=cur.simMs && k<ALARM_SWEEP_MAX_PER_ALARM; k++){
+      due.push({ alarm, atMs:t }); if(alarm.repeat!=='every') break;
+      t=nextAlarmMs(alarm.spec,t,missions);
+    }
+  }
+  return due.sort((x,y)=>x.atMs-y.atMs);
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { REFERENCE_CHECKS, runReferenceChecks } from "./referenceChecks";
+import {
+  GAUSS_K, J2000_TT, keplerElementsAt, keplerRows, conicPositionAU, conicSemiMajorAU, parseSmallBodies, exportSmallBodies,
+  smallBodyFromJSON, jdTTatMs, msFromJdTT, formatDuration, moonPhaseTime, moonPhaseBracket, findSatelliteEvents, satelliteEventsFrom,
+  type ConicElements,
+} from "./astroCore";
+
+// Published reference values (the same list the app's "Run self‑checks" button runs)
+const groups=[...new Set(REFERENCE_CHECKS.map(c=>c.group))];
+describe.each(groups)('%s', group=>{
+  it.each(runReferenceChecks(REFERENCE_CHECKS.filter(c=>c.group===group)).map(r=>[r.name,r] as const))('%s', (_,r)=>{
+    expect(Number.isFinite(r.got), `${r.name} is not a number`).toBe(true);
+    expect(Math.abs(r.got-r.expected), `${r.name}: got ${r.got}, expected ${r.expected} ± ${r.tol} (${r.source})`).toBeLessThanOrEqual(r.tol);
+  });
+});
+
+describe('time helpers', ()=>{
+  it('light‑time durations do not wrap at 24 h', ()=>{
+    expect(formatDuration(26.6)).toBe('1d 02:36:00');
+    expect(formatDuration(8.3167/60)).toBe('00:08:19');
+    expect(formatDuration(48)).toBe('2d 00:00:00');
+  });
+  it('UTC ms → JD TT → UTC ms round‑trips', ()=>{
+    for(const iso of ['1969-07-20T20:17:40Z','2016-12-31T23:59:59Z','2024-02-29T12:00:00Z']){
+      const ms=Date.parse(iso); expect(Math.abs(msFromJdTT(jdTTatMs(ms))-ms)).toBeLessThan(1);
+    }
+  });
+});
+
+describe('moon phase bracket', ()=>{
+  // Within seconds: the root‑find's own precision depends on where its search starts
+  it('matches fresh root‑finds while scrubbing forward and back', ()=>{
+    const t0=2460676.5;
+    for(const d of [0,0.5,3,7.4,12,20,29.6,31,18,6,1,-2,-15,40]){
+      const jd=t0+d, b=moonPhaseBracket(jd);
+      expect(b.prevNew).toBeCloseTo(moonPhaseTime(jd,0,-1),4);
+      expect(b.next.map(n=>n.jd)).toEqual([0,90,180,270].map(q=>moonPhaseTime(jd,q,1)).sort((x,y)=>x-y).map(v=>expect.closeTo(v,4)));
+    }
+  });
+});
+
+describe('satellite events from cached windows', ()=>{
+  // Within seconds: each search bisects its edges from a grid anchored where it starts
+  it.each(['Jupiter','Saturn'] as const)('match a fresh 48 h search for %s', system=>{
+    for(const jd of [2460676.5,2460677.23,2460679.9,2460680.01]){
+      const got=satelliteEventsFrom(system,jd), want=findSatelliteEvents(system,jd,48);
+      expect(got.map(e=>`${e.moon}:${e.kind}:${e.inProgress}:${e.end===null}`)).toEqual(want.map(e=>`${e.moon}:${e.kind}:${e.inProgress}:${e.end===null}`));
+      got.forEach((e,k)=>{ expect(e.start).toBeCloseTo(want[k].start,4); if(e.end!==null) expect(e.end).toBeCloseTo(want[k].end!,4); });
+    }
+  });
+});
+
+// Fixed‑column MPC record: [1‑based start column, text] pairs
+const mpcLine=(fields:Array<[number,string]>)=>{ const l=Array(200).fill(' '); for(const [c,t] of fields) [...t].forEach((ch,k)=>{ l[c-1+k]=ch; }); return l.join('').trimEnd(); };
+
+describe('small bodies', ()=>{
+  it('conic propagator reproduces the Keplerian Mars at the element epoch', ()=>{
+    const el=keplerElementsAt('Mars',J2000_TT)!;
+    const M=((el.L-el.peri)%360+360)%360*Math.PI/180;
+    const c:ConicElements={ q:el.a*(1-el.e), e:el.e, i:el.i, node:el.node, peri:el.peri-el.node, tp:J2000_TT-M/(GAUSS_K/el.a**1.5) };
+    const p=conicPositionAU(c,J2000_TT), k=keplerRows(J2000_TT).find(r=>r.name==='Mars')!;
+    expect(Math.hypot(p.x-k.x,p.y-k.y,p.z-k.z)).toBeLessThan(1e-9);
+  });
+  it('parabolic and near‑parabolic orbits agree', ()=>{
+    const at=(e:number)=>conicPositionAU({ q:0.5, e, i:30, node:40, peri:50, tp:2460000.5 },2460100.5);
+    for(const e of [1-1e-7,1+1e-7]){ const a=at(1), b=at(e); expect(Math.hypot(a.x-b.x,a.y-b.y,a.z-b.z)).toBeLessThan(1e-5); }
+  });
+  it('reads an MPCORB.DAT minor‑planet record', ()=>{
+    const line=mpcLine([[1,'00001'],[9,' 3.34'],[15,' 0.15'],[21,'K249H'],[27,'60.07966'],[38,'73.42179'],[49,'80.25214'],
+      [60,'10.58656'],[71,'0.0788500'],[81,'0.21424651'],[93,'2.7660512'],[167,'(1) Ceres']]);
+    const {bodies,errors}=parseSmallBodies(line);
+    expect(errors).toEqual([]);
+    expect(bodies[0]).toMatchObject({ name:'Ceres', label:'(1) Ceres', kind:'dwarf', elements:{ peri:73.42179, node:80.25214, i:10.58656, H:3.34, G:0.15 } });
+    expect(conicSemiMajorAU(bodies[0].elements)).toBeCloseTo(2.7660512,9);
+  });
+  it('reads a CometEls.txt record', ()=>{
+    const line=mpcLine([[1,'0001P'],[15,'1986 02  9.4589'],[31,'0.574638'],[42,'0.967143'],[52,'111.8657'],[62,' 59.3960'],[72,'162.1877'],[103,'1P/Halley']]);
+    const [halley]=parseSmallBodies(line).bodies;
+    expect(halley).toMatchObject({ name:'1P/Halley', kind:'comet', elements:{ q:0.574638, e:0.967143, peri:111.8657, node:59.396, i:162.1877 } });
+    expect(halley.elements.tp).toBeCloseTo(2446470.9589,6);
+  });
+  it('exported JSON re‑imports unchanged', ()=>{
+    const {bodies}=parseSmallBodies(JSON.stringify([
+      { name:'Ceres', kind:'dwarf', a:2.7660512, e:0.07885, i:10.58656, om:80.25214, w:73.42179, ma:60.07966, epoch:2460570.5, H:3.34 },
+      { name:'Oumuamua', label:'1I/ʻOumuamua', q:0.25589, e:1.20113, i:122.74, node:24.597, peri:241.81, tp:'2017-09-09T11:46:00' },
+    ]));
+    expect(bodies).toHaveLength(2);
+    expect(parseSmallBodies(exportSmallBodies(bodies))).toEqual({ bodies, errors:[] });
+  });
+  it('rejects built‑in names and out‑of‑range elements', ()=>{
+    expect(smallBodyFromJSON({ name:'Mars', q:1, e:0.1, i:1, node:0, peri:0, tp:2460000 })).toMatch(/Mars/);
+    expect(smallBodyFromJSON({ name:'X', q:1, e:-0.1, i:1, node:0, peri:0, tp:2460000 })).toMatch(/e must be/);
+    expect(smallBodyFromJSON({ name:'X', a:2, e:1.2, i:1, node:0, peri:0, M:0, epoch:2460000 })).toMatch(/open orbits/);
+  });
+});
@@ -0,0 +1,811 @@
+// Astro core — framework‑free clock and ephemeris math, shared by the app, the test suite and Node tools
+// • Earth: NOAA solar position (equation of time, declination, alt/az), mean/apparent solar time, Sun events
+// • Mars: Mars24 (Allison & McEwen 2000) MSD/MTC/LMST/LTST, Ls, Mars Year, seasons; mission sols
+// • Body registry, circular and Keplerian (JPL Standish) orbits, user small bodies as two‑body conics
+// • Geometry from Earth, magnitudes, planetary events; IAU WGCCRE rotation; Meeus Moon and satellite configurations
+// • No React, DOM, network or storage: UTC instants in, numbers out (reference checks in ./referenceChecks)
+
+import { jdTTfromUTC, jdUTCfromTT } from "./timeScales";
+
+// ===== Utilities =====
+export const mod = (n: number, m: number) => ((n % m) + m) % m;
+export const toRad = (deg: number) => (deg * Math.PI) / 180;
+export const toDeg = (rad: number) => (rad * 180) / Math.PI;
+export function pad2(n: number) { return n < 10 ? `0${n}` : `${n}`; }
+export function formatHMS(hoursFloat: number) {
+  const h = mod(Math.floor(hoursFloat), 24);
+  const m = Math.floor(mod(hoursFloat * 60, 60));
+  const s = Math.floor(mod(hoursFloat * 3600, 60));
+  return `${pad2(h)}:${pad2(m)}:${pad2(s)}`;
+}
+export function formatHMS24(hoursFloat: number) { return formatHMS(mod(hoursFloat, 24)); }
+// Durations (light time) don't wrap at 24 h: "02:36:12", "1d 02:36:12"
+export function formatDuration(hoursFloat: number) {
+  const total = Math.round(Math.max(0, hoursFloat) * 3600), days = Math.floor(total / 86400), s = total % 86400;
+  const hms = `${pad2(Math.floor(s / 3600))}:${pad2(Math.floor(s / 60) % 60)}:${pad2(s % 60)}`;
+  return days ? `${days}d ${hms}` : hms;
+}
+// "HH:MM" (00:00–24:00) → hours, or null
+export function parseHHMM(s:string){ const m=/^(\d{1,2}):(\d{2})$/.exec(s.trim()); if(!m) return null; const h=+m[1], min=+m[2]; return h<=24 && min<60 && h*60+min<=1440? h+min/60 : null; }
+function dayOfYearUTC(d: Date) { const start = Date.UTC(d.getUTCFullYear(), 0, 1); return Math.floor((d.getTime() - start)/86400000)+1; }
+
+// NOAA fractional year (radians)
+function fractionalYearRad(date: Date) {
+  const N = dayOfYearUTC(date);
+  const hours = date.getUTCHours() + date.getUTCMinutes()/60 + date.getUTCSeconds()/3600;
+  return (2 * Math.PI/365)*(N-1+(hours-12)/24);
+}
+// Equation of Time (minutes)
+export function equationOfTimeMinutes(date: Date) {
+  const gamma = fractionalYearRad(date);
+  return 229.18*(0.000075+0.001868*Math.cos(gamma)-0.032077*Math.sin(gamma)-0.014615*Math.cos(2*gamma)-0.040849*Math.sin(2*gamma));
+}
+export function julianDateUTC(date: Date) { return date.getTime()/86400000+2440587.5; }
+
+// Earth
+export function earthMeanSolarTimeHours(dateUTC: Date, lon: number) {
+  const utcHours = dateUTC.getUTCHours()+dateUTC.getUTCMinutes()/60+dateUTC.getUTCSeconds()/3600+dateUTC.getUTCMilliseconds()/3.6e6;
+  return mod(utcHours+lon/15,24);
+}
+export function earthApparentSolarTimeHours(dateUTC: Date, lon: number) {
+  return mod(earthMeanSolarTimeHours(dateUTC,lon)+equationOfTimeMinutes(dateUTC)/60,24);
+}
+// Solar declination (radians), NOAA series on the same fractional year as the EoT
+export function solarDeclinationRad(date: Date) {
+  const g = fractionalYearRad(date);
+  return 0.006918-0.399912*Math.cos(g)+0.070257*Math.sin(g)-0.006758*Math.cos(2*g)+0.000907*Math.sin(2*g)-0.002697*Math.cos(3*g)+0.00148*Math.sin(3*g);
+}
+// Geometric solar altitude / azimuth (deg, azimuth from north through east)
+export function solarAltAzDeg(date: Date, lat: number, lon: number) {
+  const decl = solarDeclinationRad(date); const phi = toRad(lat);
+  const ha = toRad(earthApparentSolarTimeHours(date,lon)*15-180);
+  const sinAlt = Math.sin(phi)*Math.sin(decl)+Math.cos(phi)*Math.cos(decl)*Math.cos(ha);
+  const alt = toDeg(Math.asin(Math.max(-1,Math.min(1,sinAlt))));
+  const az = mod(toDeg(Math.atan2(Math.sin(ha), Math.cos(ha)*Math.sin(phi)-Math.tan(decl)*Math.cos(phi)))+180,360);
+  return { alt, az };
+}
+// Hour angle (deg) at which the Sun's zenith distance equals zenithDeg; 'up'/'down' when it never crosses (polar day/night)
+export function sunHourAngleDeg(zenithDeg: number, lat: number, decl: number): number|'up'|'down' {
+  const phi = toRad(lat);
+  const cosH = Math.cos(toRad(zenithDeg))/(Math.cos(phi)*Math.cos(decl))-Math.tan(phi)*Math.tan(decl);
+  if (!Number.isFinite(cosH)) return lat*decl > 0 ? 'up' : 'down';
+  if (cosH < -1) return 'up';
+  if (cosH > 1) return 'down';
+  return toDeg(Math.acos(cosH));
+}
+// Sun events for the local mean solar day containing `date` (UTC ms; null when the event does not occur)
+export const SUN_ZENITHS = { rise:90.833, civil:96, nautical:102, astronomical:108 } as const;
+export type SunEventPair = { start:number|null; end:number|null; state:'normal'|'up'|'down' };
+export type SunDay = { noon:number; dayLengthMin:number } & Record<keyof typeof SUN_ZENITHS, SunEventPair>;
+export function earthSunDay(date: Date, lat: number, lon: number): SunDay {
+  const local = new Date(date.getTime()+lon*240000);
+  const dayStart = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+  const approxNoon = new Date(dayStart+(720-4*lon)*60000);
+  const noon = dayStart+(720-4*lon-equationOfTimeMinutes(approxNoon))*60000;
+  const pair = (zenith:number): SunEventPair => {
+    // re‑evaluate declination/EoT at each event for ~1 min accuracy
+    const at = (sign:-1|1) => { let t = noon; for (let k=0;k<2;k++) { const ha = sunHourAngleDeg(zenith,lat,solarDeclinationRad(new Date(t))); if (typeof ha !== 'number') return ha; t = dayStart+(720-4*(lon-sign*ha)-equationOfTimeMinutes(new Date(t)))*60000; } return t; };
+    const start = at(-1), end = at(1);
+    if (typeof start === 'string') return { start:null, end:null, state:start };
+    if (typeof end === 'string') return { start:null, end:null, state:end };
+    return { start, end, state:'normal' };
+  };
+  const rise = pair(SUN_ZENITHS.rise);
+  const dayLengthMin = rise.state==='up' ? 1440 : rise.state==='down' ? 0 : (rise.end!-rise.start!)/60000;
+  return { noon, dayLengthMin, rise, civil:pair(SUN_ZENITHS.civil), nautical:pair(SUN_ZENITHS.nautical), astronomical:pair(SUN_ZENITHS.astronomical) };
+}
+
+// Mars
+// TT − UTC comes from the leap‑second table / ΔT model in ./timeScales
+export const MSD_EPOCH_JDTT=2405522.0028779;
+export const MARS_SOL_DAYS=1.0274912517;
+export function marsSolDate(jdUTC:number){ const jdTT=jdTTfromUTC(jdUTC); return (jdTT-MSD_EPOCH_JDTT)/MARS_SOL_DAYS; }
+export function marsMTC_Hours(msd:number){ return mod((msd%1)*24,24); }
+export function marsLMST_Hours(msd:number,lon:number){ return mod(marsMTC_Hours(msd)+lon/15,24); }
+
+// Mars24 (Allison & McEwen 2000) — orbit‑driven quantities from TT
+export type MarsSun = { M:number; alphaFMS:number; nuMinusM:number; Ls:number; eotHours:number; rAU:number; declDeg:number };
+const MARS_PBS:Array<[number,number,number]> = [[0.0071,2.2353,49.409],[0.0057,2.7543,168.173],[0.0039,1.1177,191.837],[0.0037,15.7866,21.736],[0.0021,2.1354,15.704],[0.0020,2.4694,95.528],[0.0018,32.8493,49.095]];
+export function marsSun(jdTT:number): MarsSun {
+  const dt=jdTT-J2000_TT;
+  const M=mod(19.3871+0.52402073*dt,360); const alphaFMS=mod(270.3871+0.524038496*dt,360);
+  const pbs=MARS_PBS.reduce((acc,[A,tau,phi])=>acc+A*Math.cos(toRad(0.985626*dt/tau+phi)),0);
+  const m=toRad(M);
+  const nuMinusM=(10.691+3.0e-7*dt)*Math.sin(m)+0.623*Math.sin(2*m)+0.050*Math.sin(3*m)+0.005*Math.sin(4*m)+0.0005*Math.sin(5*m)+pbs;
+  const Ls=mod(alphaFMS+nuMinusM,360); const l=toRad(Ls);
+  const eotDeg=2.861*Math.sin(2*l)-0.071*Math.sin(4*l)+0.002*Math.sin(6*l)-nuMinusM;
+  const rAU=1.52367934*(1.00436-0.09309*Math.cos(m)-0.004336*Math.cos(2*m)-0.00031*Math.cos(3*m)-0.00003*Math.cos(4*m));
+  const declDeg=toDeg(Math.asin(0.42565*Math.sin(l)))+0.25*Math.sin(l);
+  return { M, alphaFMS, nuMinusM, Ls, eotHours:eotDeg/15, rAU, declDeg };
+}
+export function marsLTST_Hours(msd:number,lon:number,jdTT:number){ return mod(marsLMST_Hours(msd,lon)+marsSun(jdTT).eotHours,24); }
+// Mars Year, Clancy et al. (2000): MY 1 begins at Ls = 0 on 1955‑04‑11
+export const MARS_YEAR1_JDTT=2435208.5;
+export const MARS_TROPICAL_YEAR_DAYS=686.9726;
+export function marsYear(jdTT:number, Ls=marsSun(jdTT).Ls){ return 1+Math.round((jdTT-MARS_YEAR1_JDTT)/MARS_TROPICAL_YEAR_DAYS-Ls/360); }
+// Start of Mars Year `my` (Ls = 0 crossing, refined by Newton on Ls)
+export function marsYearStartJDTT(my:number){
+  let jd=MARS_YEAR1_JDTT+(my-1)*MARS_TROPICAL_YEAR_DAYS;
+  for(let k=0;k<5;k++){ const d=mod(marsSun(jd).Ls+180,360)-180; jd-=d/0.524; }
+  return jd;
+}
+export function marsSeasons(Ls:number){
+  const q=Math.floor(mod(Ls,360)/90);
+  return { north:['Spring','Summer','Autumn','Winter'][q], south:['Autumn','Winter','Spring','Summer'][q] };
+}
+
+// ===== Body registry =====
+// One typed entry per built‑in body: parent, mean heliocentric orbit, clock/rotation rules and day labels. The orbit
+// table, map, clock tiles, site bodies, alarm bodies and the major‑moons grid are generated from it; per‑body physics
+// (KEPLER_J2000, IAU_ROTATION, apparentMagnitude) stays keyed by name. User small bodies (below) extend it at runtime.
+export const AU_KM=149597870.7;
+export const J2000_TT=2451545.0;
+export const C_KM_S=299792.458;
+export type BodyKind = 'planet'|'moon'|'dwarf'|'asteroid'|'comet';
+// earth/mars: dedicated panels; solar: IAU local solar time tile; rotation: rotation count + LTST in the moons grid
+export type BodyClock = 'earth'|'mars'|'solar'|'rotation';
+export type BodyDef = {
+  name:string; label?:string; kind:BodyKind; parent:string; // parent: 'Sun' for heliocentric bodies
+  orbit?:{ a_AU:number; T_days:number };   // mean orbit (circular model); Keplerian elements live in KEPLER_J2000
+  elements?:ConicElements;                 // osculating perihelion elements (user small bodies)
+  clock?:BodyClock;
+  solarDayHours?:number;                   // mean solar day, negative = retrograde ('solar')
+  rotationHours?:number;                   // rotation period for the rotation count ('rotation')
+  dayLabel?:string;                        // tile day counter
+  dayName?:string;                         // one day in words, for "every …" repeats
+  lunation?:boolean;                       // day counter is the lunation number (lunar days start at new Moon)
+};
+export const BODY_REGISTRY = [
+  { name:'Mercury', kind:'planet', parent:'Sun', orbit:{ a_AU:.38709893, T_days:87.969 }, clock:'solar', solarDayHours:175.938*24, dayLabel:'Solar day #', dayName:'Mercury solar day' },
+  { name:'Venus', kind:'planet', parent:'Sun', orbit:{ a_AU:.72333199, T_days:224.701 }, clock:'solar', solarDayHours:-116.75*24, dayLabel:'Solar day # (retrograde)', dayName:'Venus solar day' },
+  { name:'Earth', kind:'planet', parent:'Sun', orbit:{ a_AU:1.00000011, T_days:365.256 }, clock:'earth', dayName:'day' },
+  { name:'Moon', kind:'moon', parent:'Earth', clock:'solar', solarDayHours:29.530588*24, dayLabel:'Lunar day #', dayName:'lunar day', lunation:true },
+  { name:'Mars', kind:'planet', parent:'Sun', orbit:{ a_AU:1.52366231, T_days:686.98 }, clock:'mars', dayName:'sol' },
+  { name:'Phobos', kind:'moon', parent:'Mars', clock:'rotation', rotationHours:7.653 },
+  { name:'Deimos', kind:'moon', parent:'Mars', clock:'rotation', rotationHours:30.35 },
+  { name:'Jupiter', kind:'planet', parent:'Sun', orbit:{ a_AU:5.20336301, T_days:4332.589 }, clock:'solar', solarDayHours:9.925, dayLabel:'Rotation # (Sys III)', dayName:'rotation' },
+  { name:'Io', kind:'moon', parent:'Jupiter', clock:'rotation', rotationHours:42.459 },
+  { name:'Europa', kind:'moon', parent:'Jupiter', clock:'rotation', rotationHours:85.228 },
+  { name:'Ganymede', kind:'moon', parent:'Jupiter', clock:'rotation', rotationHours:171.709 },
+  { name:'Callisto', kind:'moon', parent:'Jupiter', clock:'rotation', rotationHours:400.536 },
+  { name:'Saturn', kind:'planet', parent:'Sun', orbit:{ a_AU:9.53707032, T_days:10759.22 }, clock:'solar', solarDayHours:10.6567, dayLabel:'Rotation # (Sys III)', dayName:'rotation' },
+  { name:'Titan', kind:'moon', parent:'Saturn', clock:'rotation', rotationHours:382.68 },
+  { name:'Rhea', kind:'moon', parent:'Saturn', clock:'rotation', rotationHours:108.45 },
+  { name:'Iapetus', kind:'moon', parent:'Saturn', clock:'rotation', rotationHours:1903.7 },
+  { name:'Enceladus', kind:'moon', parent:'Saturn', clock:'rotation', rotationHours:32.89 },
+  { name:'Uranus', kind:'planet', parent:'Sun', orbit:{ a_AU:19.19126393, T_days:30688.5 }, clock:'solar', solarDayHours:-17.2396, dayLabel:'Rotation # (retrograde)', dayName:'rotation' },
+  { name:'Titania', kind:'moon', parent:'Uranus', clock:'rotation', rotationHours:208.95 },
+  { name:'Oberon', kind:'moon', parent:'Uranus', clock:'rotation', rotationHours:323.1 },
+  { name:'Neptune', kind:'planet', parent:'Sun', orbit:{ a_AU:30.06896348, T_days:60182 }, clock:'solar', solarDayHours:15.9665, dayLabel:'Rotation #', dayName:'rotation' },
+  { name:'Triton', kind:'moon', parent:'Neptune', clock:'rotation', rotationHours:141.0 },
+] as const satisfies readonly BodyDef[];
+export type RegistryBody = (typeof BODY_REGISTRY)[number];
+export const registryByClock=<C extends BodyClock>(...clocks:C[])=>BODY_REGISTRY.filter((b):b is Extract<RegistryBody,{clock:C}>=>clocks.includes((b as BodyDef).clock as C));
+export const bodyDef=(name:string): BodyDef|undefined => BODY_REGISTRY.find(b=>b.name===name);
+export function getOrbitalBodies(){
+  return BODY_REGISTRY.filter((b):b is Extract<RegistryBody,{orbit:object}>=>'orbit' in b).map(b=>({ name:b.name, a_AU:b.orbit.a_AU, T_days:b.orbit.T_days }));
+}
+// Bodies with a local solar time tile (and body‑time alarms), keyed by name
+export type SolarBody = Extract<RegistryBody,{clock:'solar'}>['name'];
+export const SOLAR_BODIES = registryByClock('solar');
+export const SOLAR_DAY_HOURS = Object.fromEntries(SOLAR_BODIES.map(b=>[b.name,b.solarDayHours])) as Record<SolarBody,number>;
+// Major moons (educational rotation day model)
+export const MOONS: Record<string,{ periodHours:number }> = Object.fromEntries(registryByClock('rotation').map(b=>[b.name,{ periodHours:b.rotationHours }]));
+// Orbital (circular model)
+export function meanLongitudeDeg(jdTT:number,T:number){return mod(((jdTT-J2000_TT)/T)*360,360)}
+export function speedKmPerSec(a:number,T:number){return(2*Math.PI*a*AU_KM)/T/86400}
+
+// Keplerian model — JPL "Approximate Positions of the Planets" (Standish), Table 1, valid 1800–2050.
+// Mean ecliptic & equinox J2000. Each element: [value at J2000, rate per Julian century].
+// a (AU), e, i (deg), L mean longitude (deg), ϖ longitude of perihelion (deg), Ω longitude of ascending node (deg).
+// "Earth" is the Earth–Moon barycenter.
+export const GM_SUN_KM3_S2=1.32712440018e11;
+export type KeplerElements = { a:number; e:number; i:number; L:number; peri:number; node:number };
+export const KEPLER_J2000: Record<string, Record<keyof KeplerElements,[number,number]>> = {
+  Mercury:{a:[0.38709927,0.00000037],e:[0.20563593,0.00001906],i:[7.00497902,-0.00594749],L:[252.25032350,149472.67411175],peri:[77.45779628,0.16047689],node:[48.33076593,-0.12534081]},
+  Venus:  {a:[0.72333566,0.00000390],e:[0.00677672,-0.00004107],i:[3.39467605,-0.00078890],L:[181.97909950,58517.81538729],peri:[131.60246718,0.00268329],node:[76.67984255,-0.27769418]},
+  Earth:  {a:[1.00000261,0.00000562],e:[0.01671123,-0.00004392],i:[-0.00001531,-0.01294668],L:[100.46457166,35999.37244981],peri:[102.93768193,0.32327364],node:[0,0]},
+  Mars:   {a:[1.52371034,0.00001847],e:[0.09339410,0.00007882],i:[1.84969142,-0.00813131],L:[-4.55343205,19140.30268499],peri:[-23.94362959,0.44441088],node:[49.55953891,-0.29257343]},
+  Jupiter:{a:[5.20288700,-0.00011607],e:[0.04838624,-0.00013253],i:[1.30439695,-0.00183714],L:[34.39644051,3034.74612775],peri:[14.72847983,0.21252668],node:[100.47390909,0.20469106]},
+  Saturn: {a:[9.53667594,-0.00125060],e:[0.05386179,-0.00050991],i:[2.48599187,0.00193609],L:[49.95424423,1222.49362201],peri:[92.59887831,-0.41897216],node:[113.66242448,-0.28867794]},
+  Uranus: {a:[19.18916464,-0.00196176],e:[0.04725744,-0.00004397],i:[0.77263783,-0.00242939],L:[313.23810451,428.48202785],peri:[170.95427630,0.40805281],node:[74.01692503,0.04240589]},
+  Neptune:{a:[30.06992276,0.00026291],e:[0.00859048,0.00005105],i:[1.77004347,0.00035372],L:[-55.12002969,218.45945325],peri:[44.96476227,-0.32241464],node:[131.78422574,-0.00508664]},
+};
+export function keplerElementsAt(name:string,jdTT:number): KeplerElements|null {
+  const src=KEPLER_J2000[name]; if(!src) return null; const T=(jdTT-J2000_TT)/36525;
+  const at=(k:keyof KeplerElements)=>src[k][0]+src[k][1]*T;
+  return { a:at('a'), e:at('e'), i:at('i'), L:mod(at('L'),360), peri:mod(at('peri'),360), node:mod(at('node'),360) };
+}
+// Kepler's equation M = E − e·sin E (radians), Newton iteration
+export function solveKepler(M:number,e:number){
+  let E = e<0.8 ? M : Math.PI;
+  for(let k=0;k<30;k++){ const dE=(E-e*Math.sin(E)-M)/(1-e*Math.cos(E)); E-=dE; if(Math.abs(dE)<1e-12) break; }
+  return E;
+}
+// Heliocentric ecliptic position (AU) for a given eccentric anomaly
+export function keplerPositionAU(el:KeplerElements,E:number){
+  const w=toRad(el.peri-el.node), O=toRad(el.node), I=toRad(el.i);
+  const xp=el.a*(Math.cos(E)-el.e), yp=el.a*Math.sqrt(1-el.e*el.e)*Math.sin(E);
+  const cw=Math.cos(w), sw=Math.sin(w), cO=Math.cos(O), sO=Math.sin(O), cI=Math.cos(I), sI=Math.sin(I);
+  return {
+    x:(cw*cO-sw*sO*cI)*xp+(-sw*cO-cw*sO*cI)*yp,
+    y:(cw*sO+sw*cO*cI)*xp+(-sw*sO+cw*cO*cI)*yp,
+    z:(sw*sI)*xp+(cw*sI)*yp,
+  };
+}
+export function visVivaKmPerSec(rAU:number,aAU:number){ return Math.sqrt(GM_SUN_KM3_S2*(2/(rAU*AU_KM)-1/(aAU*AU_KM))); }
+// Sampled full orbit (for drawing) — Sun at the focus by construction
+export function keplerOrbitPointsAU(el:KeplerElements,n=128){
+  const pts:{x:number;y:number}[]=[]; for(let k=0;k<=n;k++){ const p=keplerPositionAU(el,(k/n)*2*Math.PI); pts.push({x:p.x,y:p.y}); } return pts;
+}
+
+// ===== Orbital rows (circular / Keplerian models) =====
+// UTC ms ↔ TT Julian date (leap seconds / ΔT from ./timeScales)
+export const jdTTatMs=(ms:number)=>jdTTfromUTC(ms/86400000+2440587.5);
+export const msFromJdTT=(jdTT:number)=>(jdUTCfromTT(jdTT)-2440587.5)*86400000;
+// Circular model rows builder
+// el (osculating elements) is only present for the Keplerian model; the map uses it to draw true ellipses.
+// meta is only present on rows backed by SPICE state vectors (frame/center as delivered by the backend).
+// small is only present on user small‑body rows (their registry entry: kind, label, perihelion elements).
+export type OrbitalRowMeta = { source:'spice'; frame:string; center:string; epochUTC:string };
+export type OrbitalRow = { name:string; a:number; theta:number; x:number; y:number; z:number; r:number; v:number; T:number; el?:KeplerElements; meta?:OrbitalRowMeta; small?:SmallBody };
+export function circularRows(jdTT:number): OrbitalRow[] {
+  return getOrbitalBodies().map(b=>{
+    const theta=meanLongitudeDeg(jdTT,b.T_days); const v=speedKmPerSec(b.a_AU,b.T_days);
+    const x=b.a_AU*Math.cos(toRad(theta)); const y=b.a_AU*Math.sin(toRad(theta));
+    return { name:b.name, a:b.a_AU, theta, x, y, z:0, r:b.a_AU, v, T:b.T_days };
+  });
+}
+// Keplerian model rows builder (falls back to the circular row for bodies without elements)
+export function keplerRows(jdTT:number): OrbitalRow[] {
+  const circ=circularRows(jdTT);
+  return getOrbitalBodies().map((b,idx)=>{
+    const el=keplerElementsAt(b.name,jdTT); if(!el) return circ[idx];
+    const M=toRad(mod(el.L-el.peri+180,360)-180); const E=solveKepler(M,el.e);
+    const {x,y,z}=keplerPositionAU(el,E); const r=Math.hypot(x,y,z);
+    const theta=mod(toDeg(Math.atan2(y,x)),360);
+    return { name:b.name, a:el.a, theta, x, y, z, r, v:visVivaKmPerSec(r,el.a), T:b.T_days, el };
+  });
+}
+
+// ===== Small bodies: user orbital elements (JSON / MPC one‑line records) =====
+// Dwarf planets, asteroids and comets entered by the user extend the registry as heliocentric two‑body orbits (no
+// perturbations, so accuracy degrades away from the element epoch). Elements are kept in perihelion form so one
+// propagator covers ellipses, parabolas and hyperbolas: q (AU), e, i / node Ω / peri ω (deg, ecliptic J2000), tp (JD TT).
+export type ConicElements = { q:number; e:number; i:number; node:number; peri:number; tp:number; H?:number; G?:number };
+export type SmallBodyKind = 'dwarf'|'asteroid'|'comet';
+export type SmallBody = BodyDef & { kind:SmallBodyKind; label:string; elements:ConicElements };
+export const SMALL_BODY_KINDS: SmallBodyKind[] = ['dwarf','asteroid','comet'];
+export const GAUSS_K=0.01720209895; // rad/day: mean motion at 1 AU (massless body)
+export const CONIC_PATH_MAX_AU=100;  // open and far‑reaching orbits are drawn out to this distance
+export const bodyLabel=(b:BodyDef)=>b.label ?? b.name;
+
+// Hyperbolic Kepler equation M = e·sinh H − H, Newton iteration
+export function solveHyperbolicKepler(M:number,e:number){
+  let H=Math.sign(M)*Math.log(2*Math.abs(M)/e+1.8);
+  for(let k=0;k<50;k++){ const dH=(e*Math.sinh(H)-H-M)/(e*Math.cosh(H)-1); H-=dH; if(Math.abs(dH)<1e-12) break; }
+  return H;
+}
+// Heliocentric ecliptic point at true anomaly nu (rad) and distance r (AU)
+export function conicPointAU(c:ConicElements,nu:number,r:number){
+  const u=toRad(c.peri)+nu, O=toRad(c.node), I=toRad(c.i);
+  return { x:r*(Math.cos(O)*Math.cos(u)-Math.sin(O)*Math.sin(u)*Math.cos(I)), y:r*(Math.sin(O)*Math.cos(u)+Math.cos(O)*Math.sin(u)*Math.cos(I)), z:r*Math.sin(u)*Math.sin(I) };
+}
+export const conicSemiMajorAU=(c:ConicElements)=>c.q/(1-c.e); // negative for hyperbolas, infinite for parabolas
+export const conicPeriodDays=(c:ConicElements)=>c.e<1? 2*Math.PI*conicSemiMajorAU(c)**1.5/GAUSS_K : Infinity;
+export const trueAnomalyFromE=(E:number,e:number)=>2*Math.atan2(Math.sqrt(1+e)*Math.sin(E/2),Math.sqrt(1-e)*Math.cos(E/2));
+// Position at a TT Julian date: Kepler's equation (e < 1), Barker's equation (parabola) or its hyperbolic form (e > 1)
+export function conicPositionAU(c:ConicElements,jdTT:number){
+  const dt=jdTT-c.tp;
+  if(Math.abs(c.e-1)<1e-8){
+    const W=3*GAUSS_K/Math.sqrt(2*c.q**3)*dt; const Y=Math.cbrt(W/2+Math.sqrt(W*W/4+1)); const s=Y-1/Y;
+    return conicPointAU(c,2*Math.atan(s),c.q*(1+s*s));
+  }
+  const a=conicSemiMajorAU(c), M=GAUSS_K/Math.abs(a)**1.5*dt;
+  if(c.e<1){ const E=solveKepler(mod(M+Math.PI,2*Math.PI)-Math.PI,c.e); return conicPointAU(c,trueAnomalyFromE(E,c.e),a*(1-c.e*Math.cos(E))); }
+  const H=solveHyperbolicKepler(M,c.e);
+  return conicPointAU(c,2*Math.atan(Math.sqrt((c.e+1)/(c.e-1))*Math.tanh(H/2)),a*(1-c.e*Math.cosh(H)));
+}
+// Orbit outline for the map; it does not change with time, so it is cached per element set
+const conicPathCache=new WeakMap<ConicElements,{ pts:Array<{x:number;y:number}>; closed:boolean }>();
+export function conicOrbitPointsAU(c:ConicElements,n=128){
+  const hit=conicPathCache.get(c); if(hit) return hit;
+  const p=c.q*(1+c.e); const closed=c.e<1 && (p/(1-c.e)<=CONIC_PATH_MAX_AU || c.q>=CONIC_PATH_MAX_AU);
+  const pts:Array<{x:number;y:number}>=[];
+  if(closed){ const a=conicSemiMajorAU(c); for(let k=0;k<=n;k++){ const E=(k/n)*2*Math.PI; const {x,y}=conicPointAU(c,trueAnomalyFromE(E,c.e),a*(1-c.e*Math.cos(E))); pts.push({x,y}); } }
+  else {
+    const nuMax=Math.acos(Math.max(-1,Math.min(1,(p/CONIC_PATH_MAX_AU-1)/c.e)));
+    for(let k=0;k<=n;k++){ const nu=-nuMax+(2*k/n)*nuMax; const {x,y}=conicPointAU(c,nu,p/(1+c.e*Math.cos(nu))); pts.push({x,y}); }
+  }
+  const out={ pts, closed }; conicPathCache.set(c,out); return out;
+}
+// Rows for the user bodies — the same for every data source (SPICE is only asked for the planets)
+export function smallBodyRows(bodies:SmallBody[],jdTT:number): OrbitalRow[] {
+  return bodies.map(b=>{
+    const {x,y,z}=conicPositionAU(b.elements,jdTT); const r=Math.hypot(x,y,z); const a=conicSemiMajorAU(b.elements);
+    return { name:b.name, a, theta:mod(toDeg(Math.atan2(y,x)),360), x, y, z, r, v:visVivaKmPerSec(r,a), T:conicPeriodDays(b.elements), small:b };
+  });
+}
+// Asteroid V magnitude in the IAU H,G system (Bowell et al. 1989); comets have no comparable law here
+export function smallBodyMagnitude(b:SmallBody,rAU:number,deltaAU:number,phaseDeg:number): number|null {
+  const {H,G=0.15}=b.elements; if(H===undefined || b.kind==='comet') return null;
+  const t=Math.tan(toRad(phaseDeg)/2);
+  return H+5*Math.log10(rAU*deltaAU)-2.5*Math.log10((1-G)*Math.exp(-3.33*t**0.63)+G*Math.exp(-1.87*t**1.22));
+}
+
+// JSON: one object or an array of { name, label?, kind?, e, i, node|om, peri|w, then q + tp, or a + M|ma + epoch; H?, G? }
+// (JPL SBDB field names accepted). Angles in degrees; epoch/tp as a JD (TT) or an ISO date, read as TT.
+const jdFromCalendarTT=(y:number,m:number,d:number)=>Date.UTC(y,m-1,1)/86400000+2440587.5+d-1;
+const norm360=(deg:number)=>deg>=0 && deg<360? deg : mod(deg,360); // in‑range values stay exact (lossless re‑import)
+export function smallBodyFromJSON(v:unknown): SmallBody|string {
+  if(typeof v!=='object' || v===null || Array.isArray(v)) return 'expected an object';
+  const o=v as Record<string,unknown>;
+  const name=typeof o.name==='string'? o.name.trim() : '';
+  if(!name || name.length>60) return 'name must be 1–60 characters';
+  if(name.toLowerCase()==='sun' || BODY_REGISTRY.some(b=>b.name.toLowerCase()===name.toLowerCase())) return `${name}: name clashes with a built‑in body`;
+  const num=(...keys:string[])=>{ for(const k of keys) if(o[k]!==undefined && o[k]!==null) return typeof o[k]==='number' && Number.isFinite(o[k])? o[k] as number : NaN; return undefined; };
+  const jd=(k:string)=>{
+    const x=o[k]; if(x===undefined || x===null) return undefined;
+    if(typeof x==='number') return x>0 && x<1e7? x : NaN;
+    if(typeof x!=='string') return NaN;
+    const ms=Date.parse(/T[\d:.]+$/.test(x)? `${x}Z` : x); return Number.isFinite(ms)? ms/86400000+2440587.5 : NaN;
+  };
+  const e=num('e'), i=num('i'), node=num('node','om'), peri=num('peri','w');
+  if(e===undefined || !(e>=0 && e<100)) return `${name}: e must be in [0, 100)`;
+  if(i===undefined || !(i>=0 && i<=180)) return `${name}: i must be in [0°, 180°]`;
+  if(node===undefined || peri===undefined || Number.isNaN(node) || Number.isNaN(peri)) return `${name}: node (Ω) and peri (ω) are required`;
+  const qIn=num('q'), tpIn=jd('tp'), a=num('a'), M=num('M','ma'), epoch=jd('epoch');
+  let q:number, tp:number;
+  if(qIn!==undefined && tpIn!==undefined){ q=qIn; tp=tpIn; }
+  else if(a!==undefined && M!==undefined && epoch!==undefined){
+    if(!(a>0) || e>=1) return `${name}: a + M needs a > 0 and e < 1 (give q + tp for open orbits)`;
+    if(Number.isNaN(M)) return `${name}: M must be a number`;
+    q=a*(1-e); tp=epoch-toRad(M)/(GAUSS_K/a**1.5);
+  }
+  else return `${name}: give q + tp, or a + M + epoch`;
+  if(!(q>0 && q<1000)) return `${name}: q must be in (0, 1000) AU`;
+  if(!Number.isFinite(tp)) return `${name}: tp / epoch must be a Julian date or an ISO date`;
+  const H=num('H'), G=num('G');
+  if(Number.isNaN(H) || Number.isNaN(G)) return `${name}: H and G must be numbers`;
+  const kind=o.kind===undefined? (qIn!==undefined? 'comet' : 'asteroid') : o.kind;
+  if(!SMALL_BODY_KINDS.includes(kind as SmallBodyKind)) return `${name}: kind must be ${SMALL_BODY_KINDS.join(', ')}`;
+  const label=typeof o.label==='string' && o.label.trim()? o.label.trim().slice(0,80) : name;
+  return { name, label, kind:kind as SmallBodyKind, parent:'Sun',
+    elements:{ q, e, i, node:norm360(node), peri:norm360(peri), tp, ...(H!==undefined? {H} : {}), ...(G!==undefined? {G} : {}) } };
+}
+// MPC one‑line records (fixed columns): MPCORB.DAT minor planets (packed epoch, M, ω, Ω, i, e, n, a) and CometEls.txt
+// comets (perihelion date, q, e, ω, Ω, i). Returns null when the line is neither.
+const MPC_PACKED_CENTURY: Record<string,number> = { I:1800, J:1900, K:2000, L:2100 };
+const DWARF_PLANET_NUMBERS=new Set([1,134340,136108,136199,136472]); // Ceres, Pluto, Haumea, Eris, Makemake
+export function smallBodyFromMPC(line:string): SmallBody|string|null {
+  const col=(a:number,b:number)=>line.slice(a-1,b).trim();
+  const f=(a:number,b:number)=>{ const t=col(a,b); return t? Number(t) : NaN; };
+  const opt=(x:number)=>Number.isFinite(x)? x : undefined;
+  const ep=/^([IJKL])(\d\d)([1-9A-C])([1-9A-V])$/.exec(col(21,25));
+  if(ep){
+    const readable=col(167,194) || col(1,7); const num=/^\((\d+)\)\s*(.*)$/.exec(readable);
+    return smallBodyFromJSON({ name:num?.[2] || readable, label:readable, kind:num && DWARF_PLANET_NUMBERS.has(Number(num[1]))? 'dwarf' : 'asteroid',
+      a:f(93,103), e:f(71,79), i:f(60,68), node:f(49,57), peri:f(38,46), M:f(27,35),
+      epoch:jdFromCalendarTT(MPC_PACKED_CENTURY[ep[1]]+Number(ep[2]),parseInt(ep[3],36),parseInt(ep[4],36)), H:opt(f(9,13)), G:opt(f(15,19)) });
+  }
+  if(/^[\d ]{4}[CPDXAI]/.test(line) && /^\d{4}$/.test(col(15,18))){
+    const name=col(103,158) || col(1,12);
+    return smallBodyFromJSON({ name, kind:'comet', q:f(31,39), e:f(42,49), peri:f(52,59), node:f(62,69), i:f(72,79), tp:jdFromCalendarTT(f(15,18),f(20,21),f(23,29)) });
+  }
+  return null;
+}
+// Text starting with [ or { is JSON; anything else is read as MPC lines (blank lines skipped)
+export function parseSmallBodies(text:string): { bodies:SmallBody[]; errors:string[] } {
+  const bodies:SmallBody[]=[], errors:string[]=[];
+  const take=(r:SmallBody|string,where:string)=>{ if(typeof r==='string') errors.push(`${where}: ${r}`); else bodies.push(r); };
+  if(/^\s*[[{]/.test(text)){
+    let json:unknown; try { json=JSON.parse(text); } catch(e){ return { bodies, errors:[`JSON: ${e instanceof Error? e.message : String(e)}`] }; }
+    (Array.isArray(json)? json : [json]).forEach((v,k)=>take(smallBodyFromJSON(v),`#${k+1}`));
+  } else {
+    text.split(/\r?\n/).forEach((line,k)=>{ if(line.trim()) take(smallBodyFromMPC(line) ?? 'not an MPCORB.DAT or CometEls.txt record',`line ${k+1}`); });
+  }
+  return { bodies, errors };
+}
+// Export in the JSON input schema (perihelion form), so files re‑import unchanged
+export function exportSmallBodies(bodies:SmallBody[]){
+  return JSON.stringify(bodies.map(b=>({ name:b.name, label:b.label, kind:b.kind, ...b.elements })),null,2);
+}
+
+// ===== Earth‑centred geometry + planetary events (from the same heliocentric rows) =====
+// Apparent V magnitude (Mallama & Hilton 2018; Saturn globe+rings per Meeus ch. 41). i = phase angle (deg).
+export function apparentMagnitude(name:string,rAU:number,deltaAU:number,i:number,jdTT:number): number|null {
+  const d=5*Math.log10(rAU*deltaAU);
+  switch(name){
+    case 'Mercury': return d-0.613+6.328e-2*i-1.6336e-3*i**2+3.3644e-5*i**3-3.4265e-7*i**4+1.6893e-9*i**5-3.0334e-12*i**6;
+    case 'Venus': return d+(i<163.7? -4.384-1.044e-3*i+3.687e-4*i**2-2.814e-6*i**3+8.938e-9*i**4 : 236.05828-2.81914*i+8.39034e-3*i**2);
+    case 'Mars': return d+(i<=50? -1.601+2.267e-2*i-1.302e-4*i**2 : -0.367-2.573e-2*i+3.445e-4*i**2);
+    case 'Jupiter': return d-9.395-3.7e-4*i+6.16e-4*i**2;
+    case 'Saturn': { const sB=Math.abs(Math.sin(toRad(saturnRingOpeningDeg(jdTT)))); return d-8.88+0.044*i-2.60*sB+1.25*sB*sB; }
+    case 'Uranus': return d-7.110+6.587e-3*i+1.045e-4*i**2;
+    case 'Neptune': return d-7.00+7.944e-3*i+9.617e-5*i**2;
+    default: return null;
+  }
+}
+export type EarthView = { name:string; distAU:number; lightSec:number; elongDeg:number; east:boolean; phaseDeg:number; illum:number; mag:number|null; nearSun:boolean };
+export function earthViewRows(rows:OrbitalRow[],jdTT:number,exclusionDeg:number): EarthView[] {
+  const E=rows.find(r=>r.name==='Earth'); if(!E) return [];
+  const R=Math.hypot(E.x,E.y,E.z); const sunLon=Math.atan2(-E.y,-E.x);
+  return rows.filter(r=>r.name!=='Earth').map(b=>{
+    const g={x:b.x-E.x,y:b.y-E.y,z:b.z-E.z}; const delta=Math.hypot(g.x,g.y,g.z); const r=Math.hypot(b.x,b.y,b.z);
+    const elongDeg=toDeg(Math.acos(Math.max(-1,Math.min(1,-(E.x*g.x+E.y*g.y+E.z*g.z)/(R*delta)))));
+    const phaseDeg=toDeg(Math.acos(Math.max(-1,Math.min(1,(b.x*g.x+b.y*g.y+b.z*g.z)/(r*delta)))));
+    const east=mod(toDeg(Math.atan2(g.y,g.x)-sunLon),360)<180;
+    return { name:b.name, distAU:delta, lightSec:delta*AU_KM/C_KM_S, elongDeg, east, phaseDeg, illum:(1+Math.cos(toRad(phaseDeg)))/2,
+      mag:b.small? smallBodyMagnitude(b.small,r,delta,phaseDeg) : apparentMagnitude(b.name,r,delta,phaseDeg,jdTT), nearSun:elongDeg<exclusionDeg };
+  });
+}
+
+// Planetary events (Keplerian model): conjunctions, oppositions, elongations, apsides, stations
+export type PlanetEventKind = 'opposition'|'conjunction'|'inferior-conjunction'|'superior-conjunction'|'elongation-east'|'elongation-west'|'perihelion'|'aphelion'|'station-retrograde'|'station-direct';
+export const PLANET_EVENT_LABELS: Record<PlanetEventKind,string> = {
+  'opposition':'Opposition', 'conjunction':'Conjunction with Sun', 'inferior-conjunction':'Inferior conjunction', 'superior-conjunction':'Superior conjunction',
+  'elongation-east':'Greatest elongation E', 'elongation-west':'Greatest elongation W', 'perihelion':'Perihelion', 'aphelion':'Aphelion',
+  'station-retrograde':'Stationary (retrograde begins)', 'station-direct':'Stationary (direct motion resumes)',
+};
+export type PlanetEvent = { body:string; kind:PlanetEventKind; jdTT:number; detail:string; x:number; y:number };
+export function keplerHeliocentricAU(name:string,jdTT:number){
+  const el=keplerElementsAt(name,jdTT); if(!el) return null;
+  return keplerPositionAU(el,solveKepler(toRad(mod(el.L-el.peri+180,360)-180),el.e));
+}
+// Geometric geocentric ecliptic longitude of a body and of the Sun, distances and elongation
+export function geocentricEcliptic(name:string,jdTT:number){
+  const b=keplerHeliocentricAU(name,jdTT)!, e=keplerHeliocentricAU('Earth',jdTT)!;
+  const g={x:b.x-e.x,y:b.y-e.y,z:b.z-e.z}; const delta=Math.hypot(g.x,g.y,g.z), R=Math.hypot(e.x,e.y,e.z);
+  const elongDeg=toDeg(Math.acos(Math.max(-1,Math.min(1,-(e.x*g.x+e.y*g.y+e.z*g.z)/(R*delta)))));
+  return { lonDeg:mod(toDeg(Math.atan2(g.y,g.x)),360), sunLonDeg:mod(toDeg(Math.atan2(-e.y,-e.x)),360), elongDeg, delta, R, r:Math.hypot(b.x,b.y,b.z) };
+}
+// Daily scan of each event function for sign changes, then bisection to < 1 min
+export function findPlanetEvents(bodies:string[],jd0:number,jd1:number): PlanetEvent[] {
+  const h=0.01, step=1, tol=0.5/1440; const wrap=(d:number)=>mod(d+180,360)-180;
+  const bisect=(f:(t:number)=>number,a:number,b:number)=>{ let fa=f(a); while(b-a>tol){ const m=(a+b)/2, fm=f(m); if(Math.sign(fm)===Math.sign(fa)){ a=m; fa=fm; } else b=m; } return (a+b)/2; };
+  const out:PlanetEvent[]=[];
+  for(const name of bodies){
+    if(!keplerElementsAt(name,jd0)) continue;
+    const inner=name==='Mercury'||name==='Venus';
+    const push=(kind:PlanetEventKind,t:number,detail:string)=>{ const p=keplerHeliocentricAU(name,t)!; out.push({ body:name, kind, jdTT:t, detail, x:p.x, y:p.y }); };
+    const rAt=(t:number)=>{ const p=keplerHeliocentricAU(name,t)!; return Math.hypot(p.x,p.y,p.z); };
+    const fns:Array<{f:(t:number)=>number; on:(t:number,rising:boolean)=>void}>=[
+      { f:t=>rAt(t+h)-rAt(t-h), on:(t,rising)=>push(rising?'perihelion':'aphelion',t,`r = ${rAt(t).toFixed(5)} AU`) },
+    ];
+    if(name!=='Earth'){
+      fns.push({ f:t=>{ const g=geocentricEcliptic(name,t); return Math.sin(toRad(g.lonDeg-g.sunLonDeg)); },
+        on:t=>{ const g=geocentricEcliptic(name,t); const opp=Math.cos(toRad(g.lonDeg-g.sunLonDeg))<0;
+          push(opp?'opposition':inner?(g.delta<g.R?'inferior-conjunction':'superior-conjunction'):'conjunction',t,`Δ = ${g.delta.toFixed(4)} AU, elong ${g.elongDeg.toFixed(2)}°`); } });
+      fns.push({ f:t=>wrap(geocentricEcliptic(name,t+h).lonDeg-geocentricEcliptic(name,t-h).lonDeg),
+        on:(t,rising)=>push(rising?'station-direct':'station-retrograde',t,`λ = ${geocentricEcliptic(name,t).lonDeg.toFixed(2)}°`) });
+      if(inner) fns.push({ f:t=>geocentricEcliptic(name,t+h).elongDeg-geocentricEcliptic(name,t-h).elongDeg,
+        on:(t,rising)=>{ if(rising) return; const g=geocentricEcliptic(name,t); push(wrap(g.lonDeg-g.sunLonDeg)>0?'elongation-east':'elongation-west',t,`elong ${g.elongDeg.toFixed(2)}°`); } });
+    }
+    for(const {f,on} of fns){
+      let t=jd0, ft=f(t);
+      while(t<jd1){
+        const t2=Math.min(jd1,t+step), f2=f(t2);
+        if(ft!==0 && Math.sign(f2)!==Math.sign(ft)) on(bisect(f,t,t2),f2>ft);
+        t=t2; ft=f2;
+      }
+    }
+  }
+  return out.sort((a,b)=>a.jdTT-b.jdTT);
+}
+
+export function rotationCount(jdTT:number, periodHours:number, epochJDTT:number=J2000_TT){ return Math.floor((jdTT - epochJDTT) / (periodHours/24)); }
+
+// ===== IAU rotation elements (WGCCRE 2009/2015 reports, small nutation terms truncated) =====
+// Pole (α0, δ0) in ICRF/EME2000 and prime meridian W, with d = days and T = centuries since J2000 (TDB ≈ TT).
+// `sunFrom` names the body whose heliocentric position gives the Sun direction (the parent planet for moons).
+type IauPole = { a0:number; d0:number; W:number };
+export type IauRotation = { sunFrom:string; Wdot:number; at:(d:number,T:number)=>IauPole };
+export const sinD=(x:number)=>Math.sin(toRad(x)), cosD=(x:number)=>Math.cos(toRad(x));
+const jupiterJ=(T:number)=>({ J3:283.90+4850.7*T, J4:355.80+1191.3*T, J5:119.90+262.1*T, J6:229.80+64.3*T, J7:352.25+2382.6*T, J8:113.35+6070.0*T });
+export const IAU_ROTATION: Record<string,IauRotation> = {
+  Moon:{ sunFrom:'Earth', Wdot:13.17635815, at:(d,T)=>{
+    const E=[0,125.045-0.0529921*d,250.089-0.1059842*d,260.008+13.0120009*d,176.625+13.3407154*d,357.529+0.9856003*d,311.589+26.4057084*d,134.963+13.0649930*d,276.617+0.3287146*d,34.226+1.7484877*d,15.134-0.1589763*d,119.743+0.0036096*d,239.961+0.1643573*d,25.053+12.9590088*d];
+    return {
+      a0:269.9949+0.0031*T-3.8787*sinD(E[1])-0.1204*sinD(E[2])+0.0700*sinD(E[3])-0.0172*sinD(E[4])+0.0072*sinD(E[6])-0.0052*sinD(E[10])+0.0043*sinD(E[13]),
+      d0:66.5392+0.0130*T+1.5419*cosD(E[1])+0.0239*cosD(E[2])-0.0278*cosD(E[3])+0.0068*cosD(E[4])-0.0029*cosD(E[6])+0.0009*cosD(E[7])+0.0008*cosD(E[10])-0.0009*cosD(E[13]),
+      W:38.3213+13.17635815*d-1.4e-12*d*d+3.5610*sinD(E[1])+0.1208*sinD(E[2])-0.0642*sinD(E[3])+0.0158*sinD(E[4])+0.0252*sinD(E[5])-0.0066*sinD(E[6])-0.0047*sinD(E[7])-0.0046*sinD(E[8])+0.0028*sinD(E[9])+0.0052*sinD(E[10])+0.0040*sinD(E[11])+0.0019*sinD(E[12])-0.0044*sinD(E[13]),
+    };
+  }},
+  Mercury:{ sunFrom:'Mercury', Wdot:6.1385108, at:(d,T)=>{
+    const M=[174.7910857+4.092335*d,349.5821714+8.184670*d,164.3732571+12.277005*d,339.1643429+16.369340*d,153.9554286+20.461675*d];
+    return { a0:281.0103-0.0328*T, d0:61.4155-0.0049*T, W:329.5988+6.1385108*d+0.01067257*sinD(M[0])-0.00112309*sinD(M[1])-0.00011040*sinD(M[2])-0.00002539*sinD(M[3])-0.00000571*sinD(M[4]) };
+  }},
+  Venus:{ sunFrom:'Venus', Wdot:-1.4813688, at:(d)=>({ a0:272.76, d0:67.16, W:160.20-1.4813688*d }) },
+  Jupiter:{ sunFrom:'Jupiter', Wdot:870.5360000, at:(d,T)=>({ a0:268.056595-0.006499*T, d0:64.495303+0.002413*T, W:284.95+870.5360000*d }) },
+  Saturn:{ sunFrom:'Saturn', Wdot:810.7939024, at:(d,T)=>({ a0:40.589-0.036*T, d0:83.537-0.004*T, W:38.90+810.7939024*d }) },
+  Uranus:{ sunFrom:'Uranus', Wdot:-501.1600928, at:(d)=>({ a0:257.311, d0:-15.175, W:203.81-501.1600928*d }) },
+  Neptune:{ sunFrom:'Neptune', Wdot:541.1397757, at:(d,T)=>{ const N=357.85+52.316*T; return { a0:299.36+0.70*sinD(N), d0:43.46-0.51*cosD(N), W:249.978+541.1397757*d-0.48*sinD(N) }; } },
+  Phobos:{ sunFrom:'Mars', Wdot:1128.8445850, at:(d,T)=>{ const M1=169.51-0.4357640*d, M2=192.93+1128.4096700*d+8.864*T*T;
+    return { a0:317.68-0.108*T+1.79*sinD(M1), d0:52.90-0.061*T-1.08*cosD(M1), W:35.06+1128.8445850*d+8.864*T*T-1.42*sinD(M1)-0.78*sinD(M2) }; } },
+  Deimos:{ sunFrom:'Mars', Wdot:285.1618970, at:(d,T)=>{ const M3=53.47-0.0181510*d;
+    return { a0:316.65-0.108*T+2.98*sinD(M3), d0:53.52-0.061*T-1.78*cosD(M3), W:79.41+285.1618970*d-0.520*T*T-2.58*sinD(M3)+0.19*cosD(M3) }; } },
+  Io:{ sunFrom:'Jupiter', Wdot:203.4889538, at:(d,T)=>{ const {J3,J4}=jupiterJ(T);
+    return { a0:268.05-0.009*T+0.094*sinD(J3)+0.024*sinD(J4), d0:64.50+0.003*T+0.040*cosD(J3)+0.011*cosD(J4), W:200.39+203.4889538*d-0.085*sinD(J3)-0.022*sinD(J4) }; } },
+  Europa:{ sunFrom:'Jupiter', Wdot:101.3747235, at:(d,T)=>{ const {J4,J5,J6,J7}=jupiterJ(T);
+    return { a0:268.08-0.009*T+1.086*sinD(J4)+0.060*sinD(J5)+0.015*sinD(J6)+0.009*sinD(J7), d0:64.51+0.003*T+0.468*cosD(J4)+0.026*cosD(J5)+0.007*cosD(J6)+0.002*cosD(J7), W:36.022+101.3747235*d-0.980*sinD(J4)-0.054*sinD(J5)-0.014*sinD(J6)-0.008*sinD(J7) }; } },
+  Ganymede:{ sunFrom:'Jupiter', Wdot:50.3176081, at:(d,T)=>{ const {J4,J5,J6}=jupiterJ(T);
+    return { a0:268.20-0.009*T-0.037*sinD(J4)+0.431*sinD(J5)+0.091*sinD(J6), d0:64.57+0.003*T-0.016*cosD(J4)+0.186*cosD(J5)+0.039*cosD(J6), W:44.064+50.3176081*d+0.033*sinD(J4)-0.389*sinD(J5)-0.082*sinD(J6) }; } },
+  Callisto:{ sunFrom:'Jupiter', Wdot:21.5710715, at:(d,T)=>{ const {J5,J6,J8}=jupiterJ(T);
+    return { a0:268.72-0.009*T-0.068*sinD(J5)+0.590*sinD(J6)+0.010*sinD(J8), d0:64.83+0.003*T-0.029*cosD(J5)+0.254*cosD(J6)-0.004*cosD(J8), W:259.51+21.5710715*d+0.061*sinD(J5)-0.533*sinD(J6)-0.009*sinD(J8) }; } },
+  Titan:{ sunFrom:'Saturn', Wdot:22.5769768, at:(d)=>({ a0:39.4827, d0:83.4279, W:186.5855+22.5769768*d }) },
+  Rhea:{ sunFrom:'Saturn', Wdot:79.6900478, at:(d,T)=>{ const S6=345.20-1016.3*T; return { a0:40.38-0.036*T+3.10*sinD(S6), d0:83.55-0.004*T-0.35*cosD(S6), W:235.16+79.6900478*d-3.08*sinD(S6) }; } },
+  Iapetus:{ sunFrom:'Saturn', Wdot:4.5379572, at:(d,T)=>({ a0:318.16-3.949*T, d0:75.03-1.143*T, W:355.2+4.5379572*d }) },
+  Enceladus:{ sunFrom:'Saturn', Wdot:262.7318996, at:(d,T)=>({ a0:40.66-0.036*T, d0:83.52-0.004*T, W:6.32+262.7318996*d }) },
+  Titania:{ sunFrom:'Uranus', Wdot:-41.3514316, at:(d)=>({ a0:257.43, d0:-15.10, W:77.74-41.3514316*d }) },
+  Oberon:{ sunFrom:'Uranus', Wdot:-26.7394932, at:(d)=>({ a0:257.43, d0:-15.10, W:6.77-26.7394932*d }) },
+  Triton:{ sunFrom:'Neptune', Wdot:-61.2572637, at:(d,T)=>{ const N7=177.85+52.316*T;
+    return { a0:299.36-32.35*sinD(N7)-6.28*sinD(2*N7)-2.08*sinD(3*N7), d0:41.17+22.55*cosD(N7)+2.10*cosD(2*N7)+0.55*cosD(3*N7), W:296.53-61.2572637*d+22.25*sinD(N7)+6.73*sinD(2*N7)+2.05*sinD(3*N7) }; } },
+};
+export const OBLIQUITY_J2000_DEG=23.439281;
+// Heliocentric position (ICRF/EME2000 equatorial, AU) from the Keplerian model
+export function heliocentricEquatorialAU(name:string,jdTT:number){
+  const p=keplerHeliocentricAU(name,jdTT); if(!p) return null;
+  const {x,y,z}=p;
+  const ce=cosD(OBLIQUITY_J2000_DEG), se=sinD(OBLIQUITY_J2000_DEG);
+  return { x, y:y*ce-z*se, z:y*se+z*ce };
+}
+// Subsolar point (planetocentric, east longitude) from the IAU frame and the Sun's direction as seen from the body
+export function subsolarPoint(name:string,jdTT:number): { lonDeg:number; latDeg:number }|null {
+  const rot=IAU_ROTATION[name]; const r=rot && heliocentricEquatorialAU(rot.sunFrom,jdTT); if(!rot || !r) return null;
+  const d=jdTT-J2000_TT; const {a0,d0,W}=rot.at(d,d/36525);
+  const n=Math.hypot(r.x,r.y,r.z); const s={x:-r.x/n,y:-r.y/n,z:-r.z/n};
+  const p={x:cosD(d0)*cosD(a0),y:cosD(d0)*sinD(a0),z:sinD(d0)}; // pole
+  const q={x:-sinD(a0),y:cosD(a0),z:0};                        // node of body equator on ICRF equator (W origin)
+  const e={x:p.y*q.z-p.z*q.y,y:p.z*q.x-p.x*q.z,z:p.x*q.y-p.y*q.x}; // p × q, 90° east of the node
+  const sQ=s.x*q.x+s.y*q.y+s.z*q.z, sE=s.x*e.x+s.y*e.y+s.z*e.z, sP=s.x*p.x+s.y*p.y+s.z*p.z;
+  return { lonDeg:mod(toDeg(Math.atan2(sE,sQ))-W,360), latDeg:toDeg(Math.asin(Math.max(-1,Math.min(1,sP)))) };
+}
+// Local true solar time (24 "local hours" per solar day); runs backwards in longitude for retrograde rotators
+export function localSolarTimeHours(name:string,subsolarLonDeg:number,lonE:number){
+  const sense=Math.sign(IAU_ROTATION[name]?.Wdot ?? 1);
+  return mod(12+sense*(lonE-subsolarLonDeg)/15,24);
+}
+// Solar days since J2000, rolling over at local midnight on the prime meridian
+export function solarDayNumber(jdTT:number,solarDayDays:number,ct:number,ct0:number){
+  return Math.round((jdTT-J2000_TT)/Math.abs(solarDayDays)-ct/24+ct0/24);
+}
+
+// ===== Moon (Meeus, Astronomical Algorithms ch. 47 — main periodic terms only, ≲20″ / ≲20 km) =====
+// [D, M, M', F, Σl (1e‑6 deg), Σr (1e‑3 km)]
+const MOON_LR:Array<[number,number,number,number,number,number]> = [
+  [0,0,1,0,6288774,-20905355],[2,0,-1,0,1274027,-3699111],[2,0,0,0,658314,-2955968],[0,0,2,0,213618,-569925],
+  [0,1,0,0,-185116,48888],[0,0,0,2,-114332,-3149],[2,0,-2,0,58793,246158],[2,-1,-1,0,57066,-152138],
+  [2,0,1,0,53322,-170733],[2,-1,0,0,45758,-204586],[0,1,-1,0,-40923,-129620],[1,0,0,0,-34720,108743],
+  [0,1,1,0,-30383,104755],[2,0,0,-2,15327,10321],[0,0,1,2,-12528,0],[0,0,1,-2,10980,79661],
+  [4,0,-1,0,10675,-34782],[0,0,3,0,10034,-23210],[4,0,-2,0,8548,-21636],[2,1,-1,0,-7888,24208],
+  [2,1,0,0,-6766,30824],[1,0,-1,0,-5163,-8379],[1,1,0,0,4987,-16675],[2,-1,1,0,4036,-12831],
+  [2,0,2,0,3994,-10445],[4,0,0,0,3861,-11650],[2,0,-3,0,3665,14403],[0,1,-2,0,-2689,-7003],
+  [2,0,-1,2,-2602,0],[2,-1,-2,0,2390,10056],[1,0,1,0,-2348,6322],[2,-2,0,0,2236,-9884],
+];
+// [D, M, M', F, Σb (1e‑6 deg)]
+const MOON_B:Array<[number,number,number,number,number]> = [
+  [0,0,0,1,5128122],[0,0,1,1,280602],[0,0,1,-1,277693],[2,0,0,-1,173237],[2,0,-1,1,55413],
+  [2,0,-1,-1,46271],[2,0,0,1,32573],[0,0,2,1,17198],[2,0,1,-1,9266],[0,0,2,-1,8822],
+  [2,-1,0,-1,8216],[2,0,-2,-1,4324],[2,0,1,1,4200],[2,1,0,-1,-3359],[2,-1,-1,1,2463],
+  [2,-1,0,1,2211],[2,-1,-1,-1,2065],[0,1,-1,-1,-1870],[4,0,-1,-1,1828],[0,1,0,1,-1794],
+];
+// Geocentric ecliptic (mean equinox of date) longitude/latitude (deg) and distance (km)
+export function moonPosition(jdTT:number){
+  const T=(jdTT-J2000_TT)/36525;
+  const Lp=mod(218.3164477+481267.88123421*T-0.0015786*T*T+T**3/538841-T**4/65194000,360);
+  const D=mod(297.8501921+445267.1114034*T-0.0018819*T*T+T**3/545868-T**4/113065000,360);
+  const M=mod(357.5291092+35999.0502909*T-0.0001536*T*T+T**3/24490000,360);
+  const Mp=mod(134.9633964+477198.8675055*T+0.0087414*T*T+T**3/69699-T**4/14712000,360);
+  const F=mod(93.2720950+483202.0175233*T-0.0036539*T*T-T**3/3526000+T**4/863310000,360);
+  const A1=119.75+131.849*T, A2=53.09+479264.290*T, A3=313.45+481266.484*T;
+  const E=1-0.002516*T-0.0000074*T*T; const eM=(m:number)=>Math.abs(m)===1? E : Math.abs(m)===2? E*E : 1;
+  let sl=0, sr=0, sb=0;
+  for(const [d,m,mp,f,l,r] of MOON_LR){ const arg=d*D+m*M+mp*Mp+f*F; sl+=l*eM(m)*sinD(arg); sr+=r*eM(m)*cosD(arg); }
+  for(const [d,m,mp,f,b] of MOON_B){ sb+=b*eM(m)*sinD(d*D+m*M+mp*Mp+f*F); }
+  sl+=3958*sinD(A1)+1962*sinD(Lp-F)+318*sinD(A2);
+  sb+=-2235*sinD(Lp)+382*sinD(A3)+175*sinD(A1-F)+175*sinD(A1+F)+127*sinD(Lp-Mp)-115*sinD(Lp+Mp);
+  return { lonDeg:mod(Lp+sl/1e6,360), latDeg:sb/1e6, distKm:385000.56+sr/1000 };
+}
+// Sun apparent geocentric longitude (deg, incl. aberration) and distance (AU), Meeus ch. 25 low precision
+export function sunGeocentric(jdTT:number){
+  const T=(jdTT-J2000_TT)/36525;
+  const L0=280.46646+36000.76983*T+0.0003032*T*T; const M=357.52911+35999.05029*T-0.0001537*T*T;
+  const e=0.016708634-0.000042037*T-0.0000001267*T*T;
+  const C=(1.914602-0.004817*T-0.000014*T*T)*sinD(M)+(0.019993-0.000101*T)*sinD(2*M)+0.000289*sinD(3*M);
+  const rAU=1.000001018*(1-e*e)/(1+e*cosD(M+C));
+  return { lonDeg:mod(L0+C-0.00569,360), rAU };
+}
+export const SYNODIC_MONTH_DAYS=29.530588861;
+export const MOON_PHASE_NAMES=['New Moon','Waxing Crescent','First Quarter','Waxing Gibbous','Full Moon','Waning Gibbous','Last Quarter','Waning Crescent'];
+// Moon − Sun ecliptic longitude (0 new, 90 first quarter, 180 full, 270 last quarter)
+export function moonElongationLonDeg(jdTT:number){ return mod(moonPosition(jdTT).lonDeg-sunGeocentric(jdTT).lonDeg,360); }
+export function moonPhase(jdTT:number){
+  const moon=moonPosition(jdTT), sun=sunGeocentric(jdTT);
+  const dLon=mod(moon.lonDeg-sun.lonDeg,360);
+  const psi=Math.acos(cosD(moon.latDeg)*cosD(dLon)); // geocentric elongation (rad)
+  const R=sun.rAU*AU_KM; const phaseAngle=mod(toDeg(Math.atan2(R*Math.sin(psi),moon.distKm-R*Math.cos(psi))),180);
+  return { moon, dLon, elongationDeg:toDeg(psi), phaseAngleDeg:phaseAngle, illuminated:(1+cosD(phaseAngle))/2, waxing:dLon<180, name:MOON_PHASE_NAMES[Math.round(dLon/45)%8] };
+}
+// Time (JD TT) when Moon − Sun longitude reaches targetDeg, searching forward (dir 1) or backward (dir −1) from jdTT
+export function moonPhaseTime(jdTT:number,targetDeg:number,dir:1|-1){
+  const rate=360/SYNODIC_MONTH_DAYS; const e0=moonElongationLonDeg(jdTT);
+  let t=jdTT+(dir>0? mod(targetDeg-e0,360) : -mod(e0-targetDeg,360))/rate;
+  for(let k=0;k<6;k++){ t-=(mod(moonElongationLonDeg(t)-targetDeg+180,360)-180)/rate; }
+  if(dir>0 && t<=jdTT) return moonPhaseTime(jdTT+1,targetDeg,1);
+  if(dir<0 && t>jdTT) return moonPhaseTime(jdTT-1,targetDeg,-1);
+  return t;
+}
+// Lunation number (Meeus k: 0 = new Moon of 2000‑01‑06)
+export function lunationNumber(jdNewMoonTT:number){ return Math.round((jdNewMoonTT-2451550.09766)/SYNODIC_MONTH_DAYS); }
+// Last new Moon and the next four principal phases. No phase falls between the previous phase and the next one,
+// so the root‑finds rerun only when jdTT leaves that bracket (about once a week at 1×, not on every render).
+export type MoonPhaseBracket = { prevNew:number; next:Array<{ label:string; jd:number }> };
+const PRINCIPAL_PHASES = [[0,'New Moon'],[90,'First Quarter'],[180,'Full Moon'],[270,'Last Quarter']] as const;
+let phaseBracket:{ from:number; to:number; value:MoonPhaseBracket }|null=null;
+export function moonPhaseBracket(jdTT:number): MoonPhaseBracket {
+  if(phaseBracket && jdTT>=phaseBracket.from && jdTT<phaseBracket.to) return phaseBracket.value;
+  const next=PRINCIPAL_PHASES.map(([q,label])=>({ q, label, jd:moonPhaseTime(jdTT,q,1) })).sort((a,b)=>a.jd-b.jd);
+  const value={ prevNew:moonPhaseTime(jdTT,0,-1), next:next.map(({label,jd})=>({label,jd})) };
+  phaseBracket={ from:moonPhaseTime(jdTT,mod(next[0].q-90,360),-1), to:next[0].jd, value };
+  return value;
+}
+
+// ===== Satellite configurations (as seen from Earth) + mutual events =====
+// Coordinates in the parent's equatorial radii: X positive toward the west, Y toward the planet's north pole,
+// Z positive away from the viewer. `earth` is the view from Earth, `sun` the view from the Sun (for shadows).
+export type SatView = { X:number; Y:number; Z:number };
+export type SatConfig = { name:string; earth:SatView; sun:SatView };
+export type SatelliteSystem = 'Jupiter'|'Saturn';
+export const SATELLITE_SYSTEMS: Record<SatelliteSystem,{ radiusKm:number; oblate:number; moons:Record<string,number> }> = {
+  // moons: name → mean orbital radius (km)
+  Jupiter:{ radiusKm:71492, oblate:1.071374, moons:{ Io:421700, Europa:671034, Ganymede:1070412, Callisto:1882709 } },
+  Saturn:{ radiusKm:60268, oblate:1.108601, moons:{ Enceladus:237948, Rhea:527108, Titan:1221870, Iapetus:3560820 } },
+};
+// Galilean satellites — Meeus ch. 44 low‑accuracy method (light‑time corrected)
+export function galileanConfig(jdTT:number): SatConfig[] {
+  const d=jdTT-J2000_TT; const V=172.74+0.00111588*d, M=357.529+0.9856003*d;
+  const N=20.020+0.0830853*d+0.329*sinD(V), J=66.115+0.9025179*d-0.329*sinD(V);
+  const A=1.915*sinD(M)+0.020*sinD(2*M), B=5.555*sinD(N)+0.168*sinD(2*N), K=J+A-B;
+  const R=1.00014-0.01671*cosD(M)-0.00014*cosD(2*M), r=5.20872-0.25208*cosD(N)-0.00611*cosD(2*N);
+  const delta=Math.sqrt(r*r+R*R-2*r*R*cosD(K)); const psi=toDeg(Math.asin(R*sinD(K)/delta));
+  const dl=d-delta/173;
+  const u0=[163.8069+203.4058646*dl, 358.4140+101.2916335*dl, 5.7176+50.2345180*dl, 224.8092+21.4879800*dl].map(u=>u+psi-B);
+  const G=331.18+50.310482*dl, H=87.45+21.569231*dl;
+  const u=[u0[0]+0.473*sinD(2*(u0[0]-u0[1])), u0[1]+1.065*sinD(2*(u0[1]-u0[2])), u0[2]+0.165*sinD(G), u0[3]+0.843*sinD(H)];
+  const rr=[5.9057-0.0244*cosD(2*(u0[0]-u0[1])), 9.3966-0.0882*cosD(2*(u0[1]-u0[2])), 14.9883-0.0216*cosD(G), 26.3627-0.1939*cosD(H)];
+  const lam=34.35+0.083091*d+0.329*sinD(V)+B; const Ds=3.12*sinD(lam+42.8);
+  const De=Ds-2.22*sinD(psi)*cosD(lam+22)-1.30*(r-delta)/delta*sinD(lam-100.5);
+  const view=(ui:number,ri:number,dec:number):SatView=>({ X:ri*sinD(ui), Y:-ri*cosD(ui)*sinD(dec), Z:-ri*cosD(ui)*cosD(dec) });
+  return Object.keys(SATELLITE_SYSTEMS.Jupiter.moons).map((name,k)=>({ name, earth:view(u[k],rr[k],De), sun:view(u[k]-psi,rr[k],Ds) }));
+}
+type Vec3 = { x:number; y:number; z:number };
+const dot3=(a:Vec3,b:Vec3)=>a.x*b.x+a.y*b.y+a.z*b.z;
+const cross3=(a:Vec3,b:Vec3):Vec3=>({ x:a.y*b.z-a.z*b.y, y:a.z*b.x-a.x*b.z, z:a.x*b.y-a.y*b.x });
+const unit3=(a:Vec3):Vec3=>{ const n=Math.hypot(a.x,a.y,a.z); return { x:a.x/n, y:a.y/n, z:a.z/n }; };
+function poleVector(name:string,jdTT:number):Vec3 { const d=jdTT-J2000_TT; const {a0,d0}=IAU_ROTATION[name].at(d,d/36525); return { x:cosD(d0)*cosD(a0), y:cosD(d0)*sinD(a0), z:sinD(d0) }; }
+// Project a planetocentric vector (km) onto the sky of a viewer looking along `los`, Y along the planet's pole
+function projectView(s:Vec3,los:Vec3,pole:Vec3,radiusKm:number):SatView {
+  const y=unit3({ x:pole.x-dot3(pole,los)*los.x, y:pole.y-dot3(pole,los)*los.y, z:pole.z-dot3(pole,los)*los.z });
+  const west=cross3(los,y);
+  return { X:dot3(s,west)/radiusKm, Y:dot3(s,y)/radiusKm, Z:dot3(s,los)/radiusKm };
+}
+// Saturnian satellites — synchronous rotators: the IAU prime meridian points at Saturn, so the orbital
+// position is −(prime‑meridian direction) × mean orbital radius (light‑time corrected, no eccentricity)
+export function saturnianConfig(jdTT:number): SatConfig[] {
+  const sys=SATELLITE_SYSTEMS.Saturn; const earth=heliocentricEquatorialAU('Earth',jdTT)!;
+  const s0=heliocentricEquatorialAU('Saturn',jdTT)!; const tau=Math.hypot(s0.x-earth.x,s0.y-earth.y,s0.z-earth.z)*AU_KM/C_KM_S/86400;
+  const t=jdTT-tau; const sat=heliocentricEquatorialAU('Saturn',t)!;
+  const losEarth=unit3({ x:sat.x-earth.x, y:sat.y-earth.y, z:sat.z-earth.z }), losSun=unit3(sat); const pole=poleVector('Saturn',t);
+  return Object.entries(sys.moons).map(([name,aKm])=>{
+    const d=t-J2000_TT; const {a0,d0,W}=IAU_ROTATION[name].at(d,d/36525);
+    const p={ x:cosD(d0)*cosD(a0), y:cosD(d0)*sinD(a0), z:sinD(d0) }; const q={ x:-sinD(a0), y:cosD(a0), z:0 }; const e=cross3(p,q);
+    const s={ x:-aKm*(q.x*cosD(W)+e.x*sinD(W)), y:-aKm*(q.y*cosD(W)+e.y*sinD(W)), z:-aKm*(q.z*cosD(W)+e.z*sinD(W)) };
+    return { name, earth:projectView(s,losEarth,pole,sys.radiusKm), sun:projectView(s,losSun,pole,sys.radiusKm) };
+  });
+}
+// Saturnicentric latitude of the Earth (ring opening angle B, deg)
+export function saturnRingOpeningDeg(jdTT:number){
+  const earth=heliocentricEquatorialAU('Earth',jdTT)!, sat=heliocentricEquatorialAU('Saturn',jdTT)!;
+  const los=unit3({ x:sat.x-earth.x, y:sat.y-earth.y, z:sat.z-earth.z });
+  return toDeg(Math.asin(-dot3(poleVector('Saturn',jdTT),los)));
+}
+export function satelliteConfig(system:SatelliteSystem,jdTT:number){ return system==='Jupiter'? galileanConfig(jdTT) : saturnianConfig(jdTT); }
+export type SatEventKind = 'transit'|'shadow'|'occultation'|'eclipse';
+export const SAT_EVENT_LABELS: Record<SatEventKind,string> = { transit:'Transit', shadow:'Shadow transit', occultation:'Occultation', eclipse:'Eclipse' };
+export function satEventFlags(c:SatConfig,oblate:number): Record<SatEventKind,boolean> {
+  const onDisk=(v:SatView)=>v.X*v.X+(v.Y*oblate)**2<1;
+  return { transit:onDisk(c.earth)&&c.earth.Z<0, occultation:onDisk(c.earth)&&c.earth.Z>0, shadow:onDisk(c.sun)&&c.sun.Z<0, eclipse:onDisk(c.sun)&&c.sun.Z>0 };
+}
+export type SatEvent = { moon:string; kind:SatEventKind; start:number; end:number|null; inProgress:boolean };
+// Scan [jdTT, jdTT + hours] in 5‑min steps, then bisect each start/end to ~10 s
+export function findSatelliteEvents(system:SatelliteSystem,jdTT:number,hours=48): SatEvent[] {
+  const oblate=SATELLITE_SYSTEMS[system].oblate; const step=5/1440; const n=Math.ceil(hours*12);
+  const flagsAt=(t:number)=>satelliteConfig(system,t).map(c=>satEventFlags(c,oblate));
+  const refine=(a:number,b:number,m:number,k:SatEventKind,fromState:boolean)=>{ for(let i=0;i<10;i++){ const mid=(a+b)/2; if(flagsAt(mid)[m][k]===fromState) a=mid; else b=mid; } return (a+b)/2; };
+  const names=satelliteConfig(system,jdTT).map(c=>c.name); const kinds=Object.keys(SAT_EVENT_LABELS) as SatEventKind[];
+  const out:SatEvent[]=[]; const open:Record<string,SatEvent>={};
+  let prev=flagsAt(jdTT);
+  names.forEach((moon,m)=>kinds.forEach(kind=>{ if(prev[m][kind]) open[`${m}:${kind}`]={ moon, kind, start:jdTT, end:null, inProgress:true }; }));
+  for(let i=1;i<=n;i++){
+    const t=jdTT+i*step; const cur=flagsAt(t);
+    names.forEach((moon,m)=>kinds.forEach(kind=>{
+      const key=`${m}:${kind}`;
+      if(!prev[m][kind] && cur[m][kind]) open[key]={ moon, kind, start:refine(t-step,t,m,kind,false), end:null, inProgress:false };
+      if(prev[m][kind] && !cur[m][kind] && open[key]){ open[key].end=refine(t-step,t,m,kind,true); out.push(open[key]); delete open[key]; }
+    }));
+    prev=cur;
+  }
+  return out.concat(Object.values(open)).sort((a,b)=>a.start-b.start);
+}
+// 48 h searches on a 2‑day grid (window w starts at JD TT 2w), cached and shared by the panels and alarm planning (~25 ms each)
+const satWindowCache=new Map<string,SatEvent[]>();
+export function satEventsInWindow(system:SatelliteSystem,w:number){
+  const key=`${system}:${w}`; let ev=satWindowCache.get(key);
+  if(!ev){ ev=findSatelliteEvents(system,w*2,48); satWindowCache.set(key,ev); if(satWindowCache.size>128) satWindowCache.delete(satWindowCache.keys().next().value!); }
+  return ev;
+}
+// Same list as findSatelliteEvents(system,jdTT,hours), stitched from the cached windows so a running clock only searches
+// again when it crosses into a new window; events cut at a window edge are rejoined
+export function satelliteEventsFrom(system:SatelliteSystem,jdTT:number,hours=48): SatEvent[] {
+  const end=jdTT+hours/24, w0=Math.floor(jdTT/2); const all:SatEvent[]=[]; const open=new Map<string,SatEvent>();
+  for(let w=w0; w*2<end; w++){
+    for(const e of satEventsInWindow(system,w)){
+      const key=`${e.moon}:${e.kind}`, cont=w>w0 && e.inProgress? open.get(key) : undefined;
+      if(cont) cont.end=e.end; else { const c={...e,inProgress:false}; all.push(c); if(e.end===null) open.set(key,c); }
+      if(cont && e.end!==null) open.delete(key);
+    }
+  }
+  return all.filter(e=>e.start<end && (e.end===null || e.end>jdTT)).map(e=>({
+    ...e, start:Math.max(e.start,jdTT), end:e.end!==null && e.end<=end? e.end : null, inProgress:e.start<=jdTT,
+  })).sort((a,b)=>a.start-b.start);
+}
+
+// ===== Sites + mission sols =====
+// Planetocentric latitude (°N) / east longitude (°E).
+// Site bodies are the registry bodies with a clock panel (Earth, Mars and the solar‑time tiles)
+export type SiteBody = Extract<RegistryBody,{clock:'earth'|'mars'|'solar'}>['name'];
+export const SITE_BODIES: SiteBody[] = registryByClock('earth','mars','solar').map(b=>b.name);
+export type Site = { id:string; body:SiteBody; name:string; lat:number; lon:number; builtin?:boolean };
+export const BUILTIN_SITES: Site[] = ([
+  ['Earth','New Delhi',28.7041,77.1025], ['Earth','Greenwich (Royal Observatory)',51.4779,-0.0015], ['Earth','JPL, Pasadena',34.2004,-118.1735],
+  ['Earth','Goldstone DSCC',35.4259,-116.8895], ['Earth','Madrid DSCC',40.4311,-4.2480], ['Earth','Canberra DSCC',-35.4023,148.9813],
+  ['Mars','Jezero (Perseverance)',18.4447,77.4508], ['Mars','Gale (Curiosity)',-4.5895,137.4417], ['Mars','Elysium Planitia (InSight)',4.5024,135.6234],
+  ['Mars','Utopia Planitia (Zhurong)',25.066,109.925], ['Mars','Meridiani Planum (Opportunity)',-1.9462,-5.5266], ['Mars','Chryse Planitia (Viking 1)',22.27,-47.95],
+  ['Moon','Tranquility Base (Apollo 11)',0.67408,23.47297], ['Moon',"Von Kármán (Chang'e‑4)",-45.4446,177.5991], ['Moon','Taurus–Littrow (Apollo 17)',20.1908,30.7717],
+  ['Moon',"Mare Imbrium (Chang'e‑3)",44.1214,-19.5116],
+  ['Mercury','MESSENGER impact site',54.4396,-149.8815],
+  ['Venus','Venera 13',-7.55,-56.31],
+] as Array<[SiteBody,string,number,number]>).map(([body,name,lat,lon])=>({ id:`builtin:${body}:${name}`, body, name, lat, lon, builtin:true }));
+export const normLon=(lon:number)=>mod(lon+180,360)-180;
+// Sun elevation at a site from the subsolar point (spherical body, no refraction)
+export function sunElevationDeg(lat:number,lon:number,sub:{lonDeg:number;latDeg:number}){
+  return toDeg(Math.asin(sinD(lat)*sinD(sub.latDeg)+cosD(lat)*cosD(sub.latDeg)*cosD(lon-sub.lonDeg)));
+}
+
+// Clock readings at a site: each body's own clock math at the site's longitude, Sun elevation from the subsolar point
+export function siteLocalTimes(site:Site,ms:number): Array<[string,string]> {
+  const now=new Date(ms), jdTT=jdTTatMs(ms);
+  const alt=(deg:number):[string,string]=>['Sun alt',`${deg.toFixed(1)}°`];
+  if(site.body==='Earth') return [['LMST',formatHMS24(earthMeanSolarTimeHours(now,site.lon))],['LAST',formatHMS24(earthApparentSolarTimeHours(now,site.lon))],alt(solarAltAzDeg(now,site.lat,site.lon).alt)];
+  if(site.body==='Mars'){
+    const msd=marsSolDate(julianDateUTC(now)), sun=marsSun(jdTT); const lmst=marsLMST_Hours(msd,site.lon);
+    const sub={ lonDeg:normLon((12-mod(marsMTC_Hours(msd)+sun.eotHours,24))*15), latDeg:sun.declDeg };
+    return [['LMST',formatHMS24(lmst)],['LTST',formatHMS24(mod(lmst+sun.eotHours,24))],alt(sunElevationDeg(site.lat,site.lon,sub))];
+  }
+  const sub=subsolarPoint(site.body,jdTT); if(!sub) return [];
+  return [['LTST',formatHMS24(localSolarTimeHours(site.body,sub.lonDeg,site.lon))],alt(sunElevationDeg(site.lat,site.lon,sub))];
+}
+// Mission sol = local sols (LMST midnights at the landing longitude) since the landing sol; most NASA missions count the landing sol as Sol 0.
+export type Mission = { id:string; name:string; landingUTC:string; lon:number; firstSol:number; builtin?:boolean };
+export const BUILTIN_MISSIONS: Mission[] = [
+  { id:'builtin:perseverance', name:'Perseverance', landingUTC:'2021-02-18T20:44:00Z', lon:77.4508, firstSol:0, builtin:true },
+  { id:'builtin:curiosity', name:'Curiosity', landingUTC:'2012-08-06T05:17:57Z', lon:137.4417, firstSol:0, builtin:true },
+  { id:'builtin:insight', name:'InSight', landingUTC:'2018-11-26T19:44:52Z', lon:135.6234, firstSol:0, builtin:true },
+];
+export const localMsd=(msd:number,lon:number)=>msd+lon/360;
+export function missionSol(m:Mission,msd:number){
+  const landing=marsSolDate(julianDateUTC(new Date(m.landingUTC)));
+  return Math.floor(localMsd(msd,m.lon))-Math.floor(localMsd(landing,m.lon))+m.firstSol;
+}
+// UTC instant (ms) at which the local Mars sol date at longitude lon reaches m
+export function utcMsAtLocalMsd(m:number,lon:number){ return (jdUTCfromTT((m-lon/360)*MARS_SOL_DAYS+MSD_EPOCH_JDTT)-2440587.5)*86400000; }
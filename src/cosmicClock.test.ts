@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { clockReadings, siteReadings, parseExportStep, modelRowsAt, ephemerisExport, ephemerisCSV, EXPORT_MAX_EPOCHS, EXPORT_STEP_MS } from "./cosmicClock";
+import { BUILTIN_SITES, SOLAR_BODIES, MOONS, keplerRows, circularRows, jdTTatMs, parseSmallBodies } from "./astroCore";
+
+// Mars24 worked example A epoch (also a reference check)
+const MARS24_A=Date.parse('2000-01-06T00:00:00Z');
+
+describe('clockReadings', ()=>{
+  it('reproduces Mars24 example A', ()=>{
+    const {mars}=clockReadings(MARS24_A);
+    expect(mars.msd).toBeCloseTo(44795.99976,5);
+    expect(mars).toMatchObject({ mtc:'23:59:39', sol:44795, marsYear:24 });
+  });
+  it('uses the web UI defaults and honours overrides', ()=>{
+    const r=clockReadings(MARS24_A);
+    expect(r.earth).toMatchObject({ lat:28.7041, lon:77.1025, civil:'Thu, 06 Jan 2000 00:00:00' });
+    expect(r.mars.lon).toBe(137.4);
+    const o=clockReadings(MARS24_A,{ tz:'Asia/Kolkata', lon:{ Mars:0 }, moonLon:{ Io:90 } });
+    expect(o.earth.civil).toBe('Thu, 06 Jan 2000 05:30:00');
+    expect(o.mars.lmst).toBe(o.mars.mtc);
+    expect(o.majorMoons.Io.lon).toBe(90);
+  });
+  it('covers every solar‑time body and major moon', ()=>{
+    const r=clockReadings(MARS24_A);
+    for(const b of SOLAR_BODIES) expect(r[b.name.toLowerCase() as Lowercase<typeof b.name>].ltst).toMatch(/^\d{2}:\d{2}:\d{2}$/);
+    expect(Object.keys(r.majorMoons)).toEqual(Object.keys(MOONS));
+    expect(r.moon.phase?.name).toBeDefined();
+  });
+  it('reads site clocks by name', ()=>{
+    const gale=BUILTIN_SITES.find(s=>s.name.startsWith('Gale'))!;
+    const [s]=siteReadings([gale],MARS24_A);
+    expect(Object.keys(s.times)).toEqual(['LMST','LTST','Sun alt']);
+  });
+});
+
+describe('ephemeris tables', ()=>{
+  it('parses export steps', ()=>{
+    expect(parseExportStep('30min')).toBe(30*60000);
+    expect(parseExportStep(' 6h ')).toBe(6*3600000);
+    expect(parseExportStep('2 sol')).toBe(2*EXPORT_STEP_MS.sol);
+    for(const bad of ['','0d','-1h','1 week','h']) expect(parseExportStep(bad)).toBeNull();
+  });
+  it('model sources return the map/table rows', ()=>{
+    const ms=Date.parse('2025-03-20T09:01:00Z');
+    expect(modelRowsAt('kepler')(ms)).toEqual(keplerRows(jdTTatMs(ms)));
+    expect(modelRowsAt('model')(ms)).toEqual(circularRows(jdTTatMs(ms)));
+    const {bodies}=parseSmallBodies(JSON.stringify([{ name:'Ceres', a:2.7660512, e:0.07885, i:10.58656, om:80.25214, w:73.42179, ma:60.07966, epoch:2460570.5 }]));
+    expect(modelRowsAt('kepler',bodies)(ms).at(-1)).toMatchObject({ name:'Ceres', small:bodies[0] });
+  });
+  it('writes one CSV line per epoch and body with site columns', ()=>{
+    const from=Date.parse('2025-01-01T00:00:00Z'), gale=BUILTIN_SITES.find(s=>s.name.startsWith('Gale'))!;
+    const t=ephemerisExport(modelRowsAt('kepler'),from,from+2*86400000,86400000,['Earth','Mars'],[gale],'kepler');
+    const lines=ephemerisCSV(t).trimEnd().split('\r\n');
+    expect(lines).toHaveLength(1+3*2);
+    expect(lines[0]).toBe('utc,jd_tt,body,source,a_au,theta_deg,x_au,y_au,z_au,r_au,v_km_s,T_days,Mars/Gale (Curiosity) LMST,Mars/Gale (Curiosity) LTST,Mars/Gale (Curiosity) Sun alt');
+    expect(lines[1]).toMatch(/^2025-01-01T00:00:00\.000Z,\d+\.\d{8},Earth,kepler,/);
+  });
+  it('stops at the epoch limit', ()=>{
+    const t=ephemerisExport(modelRowsAt('model'),0,EXPORT_MAX_EPOCHS*60000*2,60000,['Mars'],[],'model');
+    expect(t.epochs).toHaveLength(EXPORT_MAX_EPOCHS);
+  });
+});
@@ -0,0 +1,102 @@
+// Cosmic clock API — the clocks and ephemeris tables the web UI shows, as plain data (no React, DOM or storage)
+// • clockReadings(ms): Earth, Mars, solar‑time bodies, major moons, satellites, missions — the UI's "Copy snapshot" fields
+// • siteReadings(sites, ms): site clocks; ephemerisExport / ephemerisCSV: the export dialog's tables
+// • The app renders from these same functions, so `cosmic-clock` (cli/cosmic-clock.ts) and Node scripts match it exactly
+import {
+  mod, formatHMS24, julianDateUTC, equationOfTimeMinutes, earthMeanSolarTimeHours, earthApparentSolarTimeHours, solarAltAzDeg,
+  SUN_ZENITHS, type SunEventPair, earthSunDay, MARS_SOL_DAYS, marsSolDate, marsMTC_Hours, marsLMST_Hours, marsSun, marsYear, marsSeasons,
+  J2000_TT, bodyDef, SOLAR_DAY_HOURS, SOLAR_BODIES, type SolarBody, MOONS, rotationCount, subsolarPoint, localSolarTimeHours,
+  solarDayNumber, moonPhase, moonPhaseBracket, lunationNumber, satelliteConfig, SITE_BODIES, type SiteBody, type Site, siteLocalTimes,
+  BUILTIN_MISSIONS, type Mission, missionSol, jdTTatMs, circularRows, keplerRows, smallBodyRows, type SmallBody, type OrbitalRow,
+} from "./astroCore";
+import { jdTTfromUTC, timeScalesAt } from "./timeScales";
+
+// ===== Clock readings =====
+// Defaults are the web UI's first‑visit longitudes (New Delhi, Gale crater, prime meridians elsewhere)
+export const DEFAULT_SITE_LON: Record<SiteBody,number> = { ...Object.fromEntries(SITE_BODIES.map(b=>[b,0])) as Record<SiteBody,number>, Earth:77.1025, Mars:137.4 };
+export const DEFAULT_EARTH_LAT=28.7041;
+export type ClockOptions = { tz?:string; earthLat?:number; lon?:Partial<Record<SiteBody,number>>; moonLon?:Record<string,number>; missions?:Mission[] };
+export type SunEventReading = { start:string|null; end:string|null; state:SunEventPair['state'] };
+export type SolarClockReading = { lon:number; ltst:string; primeMeridian:string; subsolar:{ lonDeg:number; latDeg:number }; day:number; phase?:ReturnType<typeof moonPhase> };
+
+// Civil date and time in an IANA zone, formatted as on the Earth tile
+export function civilDateTime(ms:number,tz:string){
+  const now=new Date(ms);
+  return { date:new Intl.DateTimeFormat("en-GB",{timeZone:tz,weekday:'short',year:'numeric',month:'short',day:'2-digit'}).format(now),
+    time:new Intl.DateTimeFormat("en-GB",{timeZone:tz,hour:"2-digit",minute:"2-digit",second:"2-digit",hour12:false}).format(now) };
+}
+// IAU local solar time on a solar‑time body; day counts roll over at prime‑meridian midnight (lunar days at new Moon)
+const primeMeridianAtJ2000=new Map<string,number>();
+export function solarClock(name:SolarBody,jdTT:number,lon:number){
+  const sub=subsolarPoint(name,jdTT)!; const ct=localSolarTimeHours(name,sub.lonDeg,0);
+  let ct0=primeMeridianAtJ2000.get(name);
+  if(ct0===undefined){ ct0=localSolarTimeHours(name,subsolarPoint(name,J2000_TT)!.lonDeg,0); primeMeridianAtJ2000.set(name,ct0); }
+  const day=bodyDef(name)?.lunation? lunationNumber(moonPhaseBracket(jdTT).prevNew) : solarDayNumber(jdTT,SOLAR_DAY_HOURS[name]/24,ct,ct0);
+  return { sub, ct, ltst:localSolarTimeHours(name,sub.lonDeg,lon), day };
+}
+export function clockReadings(ms:number,opts:ClockOptions={}){
+  const now=new Date(ms), jdUTC=julianDateUTC(now), jdTT=jdTTfromUTC(jdUTC);
+  const lon={ ...DEFAULT_SITE_LON, ...opts.lon }, lat=opts.earthLat ?? DEFAULT_EARTH_LAT, civil=civilDateTime(ms,opts.tz ?? 'UTC');
+  const sunDay=earthSunDay(now,lat,lon.Earth), sunAltAz=solarAltAzDeg(now,lat,lon.Earth);
+  const iso=(t:number|null)=>t===null? null : new Date(t).toISOString();
+  const msd=marsSolDate(jdUTC), sun=marsSun(jdTT), marsLMST=marsLMST_Hours(msd,lon.Mars);
+  return {
+    timeScales:timeScalesAt(jdUTC),
+    earth:{ lat, lon:lon.Earth, civil:`${civil.date} ${civil.time}`, lmst:formatHMS24(earthMeanSolarTimeHours(now,lon.Earth)), last:formatHMS24(earthApparentSolarTimeHours(now,lon.Earth)), eotMin:equationOfTimeMinutes(now),
+      sun:{ altDeg:sunAltAz.alt, azDeg:sunAltAz.az, noon:iso(sunDay.noon), dayLengthMin:sunDay.dayLengthMin,
+        ...Object.fromEntries((Object.keys(SUN_ZENITHS) as Array<keyof typeof SUN_ZENITHS>).map(k=>[k,{ start:iso(sunDay[k].start), end:iso(sunDay[k].end), state:sunDay[k].state }])) as Record<keyof typeof SUN_ZENITHS,SunEventReading> } },
+    mars:{ lon:lon.Mars, msd, mtc:formatHMS24(marsMTC_Hours(msd)), lmst:formatHMS24(marsLMST), ltst:formatHMS24(mod(marsLMST+sun.eotHours,24)), sol:Math.floor(msd), Ls:sun.Ls, marsYear:marsYear(jdTT,sun.Ls),
+      season:marsSeasons(sun.Ls), eotMin:sun.eotHours*60, rAU:sun.rAU, subsolarLatDeg:sun.declDeg },
+    ...Object.fromEntries(SOLAR_BODIES.map(b=>{ const s=solarClock(b.name,jdTT,lon[b.name]);
+      return [b.name.toLowerCase(),{ lon:lon[b.name], ltst:formatHMS24(s.ltst), primeMeridian:formatHMS24(s.ct), subsolar:s.sub, day:s.day, ...(b.name==='Moon'? { phase:moonPhase(jdTT) } : {}) }]; })) as Record<Lowercase<SolarBody>,SolarClockReading>,
+    majorMoons:Object.fromEntries(Object.entries(MOONS).map(([name,m])=>{ const l=opts.moonLon?.[name] ?? 0, sub=subsolarPoint(name,jdTT)!;
+      return [name,{ rotation:rotationCount(jdTT,m.periodHours), lon:l, ltst:formatHMS24(localSolarTimeHours(name,sub.lonDeg,l)), subsolar:sub }]; })),
+    satellites:{ Jupiter:satelliteConfig('Jupiter',jdTT), Saturn:satelliteConfig('Saturn',jdTT) },
+    missions:(opts.missions ?? BUILTIN_MISSIONS).map(m=>({ name:m.name, lon:m.lon, sol:missionSol(m,msd), lmst:formatHMS24(marsLMST_Hours(msd,m.lon)) })),
+  };
+}
+export type ClockReadings = ReturnType<typeof clockReadings>;
+export function siteReadings(sites:Site[],ms:number){
+  return sites.map(s=>({ body:s.body, name:s.name, lat:s.lat, lon:s.lon, times:Object.fromEntries(siteLocalTimes(s,ms)) }));
+}
+
+// ===== Ephemeris tables =====
+export const EXPORT_MAX_EPOCHS=5000;
+export type ExportStepUnit = 'min'|'h'|'d'|'sol';
+export const EXPORT_STEP_MS: Record<ExportStepUnit,number> = { min:60000, h:3600000, d:86400000, sol:MARS_SOL_DAYS*86400*1000 };
+// "30min", "6h", "1d", "2 sol" → ms (null when malformed or not positive)
+export function parseExportStep(text:string){
+  const m=/^(\d+(?:\.\d+)?)\s*(min|h|d|sol)$/.exec(text.trim()); if(!m) return null;
+  const ms=Number(m[1])*EXPORT_STEP_MS[m[2] as ExportStepUnit]; return ms>0? ms : null;
+}
+// Rows of the backend‑free data sources: circular ('model') or Keplerian ('kepler') planets, then user small bodies
+export type ModelSource = 'model'|'kepler';
+export function modelRowsAt(source:ModelSource,smallBodies:SmallBody[]=[]){
+  const build=source==='kepler'? keplerRows : circularRows;
+  return (ms:number): OrbitalRow[]=>{ const jdTT=jdTTatMs(ms); return [...build(jdTT),...smallBodyRows(smallBodies,jdTT)]; };
+}
+export type EphemerisExport = {
+  generatedUTC:string; source:string; units:Record<string,string>;
+  epochs:Array<{ utc:string; jdTT:number; bodies:Array<{ name:string; source:string; a:number; theta:number; x:number; y:number; z:number; r:number; v:number; T:number }>; sites:Record<string,Record<string,string>> }>;
+};
+export const siteKey=(s:Site)=>`${s.body}/${s.name}`;
+// Same rows as the map/table (rowsAt from the active provider) plus each chosen site's clocks at every epoch
+export function ephemerisExport(rowsAt:(ms:number)=>OrbitalRow[],fromMs:number,toMs:number,stepMs:number,bodies:string[],sites:Site[],source:string): EphemerisExport {
+  const epochs:EphemerisExport['epochs']=[];
+  for(let ms=fromMs; ms<=toMs && epochs.length<EXPORT_MAX_EPOCHS; ms+=stepMs){
+    epochs.push({
+      utc:new Date(ms).toISOString(), jdTT:jdTTatMs(ms),
+      bodies:rowsAt(ms).filter(r=>bodies.includes(r.name)).map(r=>({ name:r.name, source:r.small? 'elements' : r.meta?.source ?? source, a:r.a, theta:r.theta, x:r.x, y:r.y, z:r.z, r:r.r, v:r.v, T:r.T })),
+      sites:Object.fromEntries(sites.map(s=>[siteKey(s),Object.fromEntries(siteLocalTimes(s,ms))])),
+    });
+  }
+  return { generatedUTC:new Date().toISOString(), source, units:{ a:'AU', theta:'deg (heliocentric ecliptic longitude)', x:'AU', y:'AU', z:'AU', r:'AU', v:'km/s', T:'days' }, epochs };
+}
+const csvCell=(v:string|number)=>{ const s=String(v); return /[",\n]/.test(s)? `"${s.replace(/"/g,'""')}"` : s; };
+// One line per epoch × body; site clocks repeat on each body's line so every line stands alone
+export function ephemerisCSV(t:EphemerisExport){
+  const siteCols=t.epochs.length? Object.entries(t.epochs[0].sites).flatMap(([k,v])=>Object.keys(v).map(f=>[k,f] as const)) : [];
+  const head=['utc','jd_tt','body','source','a_au','theta_deg','x_au','y_au','z_au','r_au','v_km_s','T_days',...siteCols.map(([k,f])=>`${k} ${f}`)];
+  const lines=t.epochs.flatMap(e=>e.bodies.map(b=>[e.utc,e.jdTT.toFixed(8),b.name,b.source,b.a,b.theta,b.x,b.y,b.z,b.r,b.v,b.T,...siteCols.map(([k,f])=>e.sites[k]?.[f] ?? '')].map(csvCell).join(',')));
+  return [head.map(csvCell).join(','),...lines].join('\r\n')+'\r\n';
+}
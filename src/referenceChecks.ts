@@ -0,0 +1,98 @@
+// Reference checks — the astro core against published values
+// • Mars24 worked examples A and B (Allison & McEwen 2000, NASA GISS Mars24 algorithm page)
+// • NOAA solar calculator (sunrise/sunset, equation of time, declination) and Meeus, Astronomical Algorithms (2nd ed.)
+// • IERS leap seconds, Espenak & Meeus ΔT, NASA planetary fact sheets, USNO perihelion, mission sol counts
+// One list, two runners: the Vitest suite (astroCore.test.ts) and the app's "Run self‑checks" button.
+// Tolerances are the model's documented accuracy (truncated series, Keplerian orbits), not the test's convenience.
+import {
+  julianDateUTC, equationOfTimeMinutes, solarDeclinationRad, earthSunDay, toDeg, mod,
+  marsSun, marsSolDate, marsMTC_Hours, marsLTST_Hours, marsYear, missionSol, BUILTIN_MISSIONS,
+  getOrbitalBodies, speedKmPerSec, keplerElementsAt, keplerRows, visVivaKmPerSec, earthViewRows, apparentMagnitude, J2000_TT, findPlanetEvents,
+  subsolarPoint, moonPosition, moonPhase, moonPhaseTime, sunGeocentric, galileanConfig, geocentricEcliptic,
+} from "./astroCore";
+import { jdTTfromUTC, jdUTCfromTT, taiMinusUtcSeconds, ttMinusUtcSeconds, deltaTSeconds, gmstHours } from "./timeScales";
+
+export type ReferenceCheck = { group:string; name:string; got:()=>number; expected:number; tol:number; unit?:string; source:string };
+export type ReferenceResult = Omit<ReferenceCheck,'got'> & { got:number; pass:boolean };
+
+const jdAt=(iso:string)=>julianDateUTC(new Date(iso));
+const jdTTAt=(iso:string)=>jdTTfromUTC(jdAt(iso));
+const body=(name:string)=>getOrbitalBodies().find(b=>b.name===name)!;
+const minutesAfter=(ms:number|null,iso:string)=>ms===null? NaN : (ms-Date.parse(iso))/60000;
+// Mars24 example A: 2000‑01‑06 00:00 UTC; example B: 2004‑01‑03 13:46:31 UTC at 184.702°W (Spirit landing)
+const MARS24_A_JDUTC=2451549.5;
+const MARS24_B_ISO='2004-01-03T13:46:31Z', MARS24_B_LON=-184.702;
+// Mars perihelic opposition season, 2003‑08‑27 09:51 UTC (closest approach)
+const MARS_2003_ISO='2003-08-27T09:51:00Z';
+const mars2003=()=>{ const jd=jdTTAt(MARS_2003_ISO); return earthViewRows(keplerRows(jd),jd,0).find(v=>v.name==='Mars')!; };
+const nycSolstice=()=>earthSunDay(new Date('2024-06-21T12:00:00Z'),40.7128,-74.006);
+const missionSolOn=(id:string,iso:string)=>missionSol(BUILTIN_MISSIONS.find(m=>m.id===id)!,marsSolDate(jdAt(iso)));
+
+export const REFERENCE_CHECKS: ReferenceCheck[] = [
+  // Time scales
+  { group:'Time scales', name:'TAI−UTC 2016‑12‑31', got:()=>taiMinusUtcSeconds(jdAt('2016-12-31T00:00:00Z')) ?? NaN, expected:36, tol:0, unit:'s', source:'IERS Bulletin C' },
+  { group:'Time scales', name:'TAI−UTC 2017‑01‑01', got:()=>taiMinusUtcSeconds(jdAt('2017-01-01T00:00:00Z')) ?? NaN, expected:37, tol:0, unit:'s', source:'IERS Bulletin C' },
+  { group:'Time scales', name:'TT−UTC 1980‑06‑01', got:()=>ttMinusUtcSeconds(jdAt('1980-06-01T00:00:00Z')), expected:51.184, tol:1e-9, unit:'s', source:'19 + 32.184' },
+  { group:'Time scales', name:'ΔT 1900.0', got:()=>deltaTSeconds(1900), expected:-2.79, tol:0.01, unit:'s', source:'Espenak & Meeus' },
+  { group:'Time scales', name:'TT−UTC continuity @1972', got:()=>ttMinusUtcSeconds(jdAt('1972-01-01T00:00:00Z'))-ttMinusUtcSeconds(jdAt('1971-12-31T00:00:00Z')), expected:0, tol:1, unit:'s', source:'ΔT → table' },
+  { group:'Time scales', name:'JD of 1957‑10‑04.81', got:()=>julianDateUTC(new Date(Date.UTC(1957,9,4)+0.81*86400000)), expected:2436116.31, tol:1e-6, source:'Meeus 7.a' },
+  { group:'Time scales', name:'GMST 1987‑04‑10 0h UT', got:()=>gmstHours(2446895.5), expected:13.1795463, tol:1e-6, unit:'h', source:'Meeus 12.a' },
+  { group:'Time scales', name:'GMST 1987‑04‑10 19:21 UT', got:()=>gmstHours(2446896.30625), expected:8.5825249, tol:1e-6, unit:'h', source:'Meeus 12.b' },
+
+  // Earth / NOAA
+  { group:'Earth', name:'NYC 2024‑06‑21 sunrise', got:()=>minutesAfter(nycSolstice().rise.start,'2024-06-21T09:25:00Z'), expected:0, tol:1, unit:'min from 09:25 UTC', source:'NOAA' },
+  { group:'Earth', name:'NYC 2024‑06‑21 sunset', got:()=>minutesAfter(nycSolstice().rise.end,'2024-06-22T00:31:00Z'), expected:0, tol:1, unit:'min from 00:31 UTC', source:'NOAA' },
+  { group:'Earth', name:'Svalbard 2024‑06‑21 polar day', got:()=>earthSunDay(new Date('2024-06-21T12:00:00Z'),78.22,15.65).dayLengthMin, expected:1440, tol:0, unit:'min', source:'NOAA' },
+  { group:'Earth', name:'Equation of time 2024‑11‑03', got:()=>equationOfTimeMinutes(new Date('2024-11-03T12:00:00Z')), expected:16.5, tol:0.25, unit:'min', source:'annual maximum, NOAA series ≲15 s' },
+  { group:'Earth', name:'Equation of time 2024‑02‑11', got:()=>equationOfTimeMinutes(new Date('2024-02-11T12:00:00Z')), expected:-14.1, tol:0.25, unit:'min', source:'annual minimum, NOAA series ≲15 s' },
+  { group:'Earth', name:'Sun declination @ 2024 June solstice', got:()=>toDeg(solarDeclinationRad(new Date('2024-06-20T20:51:00Z'))), expected:23.436, tol:0.03, unit:'deg', source:'obliquity of date' },
+  { group:'Earth', name:'Sun λ 1992‑10‑13 0h TD', got:()=>sunGeocentric(2448908.5).lonDeg, expected:199.90895, tol:0.006, unit:'deg', source:'Meeus 25.a (no nutation)' },
+  { group:'Earth', name:'Sun R 1992‑10‑13 0h TD', got:()=>sunGeocentric(2448908.5).rAU, expected:0.99766, tol:1e-5, unit:'AU', source:'Meeus 25.a' },
+
+  // Mars24
+  { group:'Mars24', name:'A: MSD', got:()=>marsSolDate(MARS24_A_JDUTC), expected:44795.99976, tol:1e-5, unit:'sol', source:'Mars24 C‑2' },
+  { group:'Mars24', name:'A: MTC', got:()=>marsMTC_Hours(marsSolDate(MARS24_A_JDUTC)), expected:23.99425, tol:1e-4, unit:'h', source:'Mars24 C‑3' },
+  { group:'Mars24', name:'A: αFMS', got:()=>marsSun(jdTTfromUTC(MARS24_A_JDUTC)).alphaFMS, expected:272.74566, tol:1e-4, unit:'deg', source:'Mars24 B‑2' },
+  { group:'Mars24', name:'A: ν − M', got:()=>marsSun(jdTTfromUTC(MARS24_A_JDUTC)).nuMinusM, expected:4.44193, tol:1e-4, unit:'deg', source:'Mars24 B‑4' },
+  { group:'Mars24', name:'A: Ls', got:()=>marsSun(jdTTfromUTC(MARS24_A_JDUTC)).Ls, expected:277.18758, tol:1e-4, unit:'deg', source:'Mars24 B‑5' },
+  { group:'Mars24', name:'A: EoT', got:()=>marsSun(jdTTfromUTC(MARS24_A_JDUTC)).eotHours*15, expected:-5.18774, tol:1e-4, unit:'deg', source:'Mars24 C‑1' },
+  { group:'Mars24', name:'A: LTST @0°', got:()=>marsLTST_Hours(marsSolDate(MARS24_A_JDUTC),0,jdTTfromUTC(MARS24_A_JDUTC)), expected:23.64840, tol:1e-4, unit:'h', source:'Mars24 C‑4' },
+  { group:'Mars24', name:'A: Mars Year', got:()=>marsYear(jdTTfromUTC(MARS24_A_JDUTC)), expected:24, tol:0, source:'Clancy et al. 2000' },
+  { group:'Mars24', name:'B: Ls', got:()=>marsSun(jdTTAt(MARS24_B_ISO)).Ls, expected:327.32416, tol:1e-4, unit:'deg', source:'Mars24 B‑5' },
+  { group:'Mars24', name:'B: MTC', got:()=>marsMTC_Hours(marsSolDate(jdAt(MARS24_B_ISO))), expected:13.16537, tol:1e-4, unit:'h', source:'Mars24 C‑3' },
+  { group:'Mars24', name:'B: LTST @184.702°W', got:()=>{ const t=marsLTST_Hours(marsSolDate(jdAt(MARS24_B_ISO)),MARS24_B_LON,jdTTAt(MARS24_B_ISO)); return mod(t+12,24)-12; }, expected:0, tol:1e-3, unit:'h from midnight', source:'Mars24 C‑4' },
+  { group:'Mars24', name:'Curiosity sol @ 2015‑05‑31', got:()=>missionSolOn('builtin:curiosity','2015-05-31T00:00:00Z'), expected:1000, tol:0, source:'NASA, Sol 0 = landing' },
+  { group:'Mars24', name:'Perseverance sol @ 2023‑12‑13', got:()=>missionSolOn('builtin:perseverance','2023-12-13T00:00:00Z'), expected:1000, tol:0, source:'NASA, Sol 0 = landing' },
+
+  // Orbits
+  { group:'Orbits', name:'Earth mean speed', got:()=>speedKmPerSec(body('Earth').a_AU,body('Earth').T_days), expected:29.78, tol:0.01, unit:'km/s', source:'NASA fact sheet' },
+  { group:'Orbits', name:'Neptune mean speed', got:()=>speedKmPerSec(body('Neptune').a_AU,body('Neptune').T_days), expected:5.43, tol:0.01, unit:'km/s', source:'NASA fact sheet' },
+  { group:'Orbits', name:'Earth mean motion', got:()=>360/body('Earth').T_days, expected:0.985609, tol:1e-5, unit:'deg/day', source:'sidereal year' },
+  { group:'Orbits', name:'Mercury perihelion speed', got:()=>{ const el=keplerElementsAt('Mercury',2451545)!; return visVivaKmPerSec(el.a*(1-el.e),el.a); }, expected:58.98, tol:0.01, unit:'km/s', source:'NASA fact sheet' },
+  { group:'Orbits', name:'Mercury aphelion speed', got:()=>{ const el=keplerElementsAt('Mercury',2451545)!; return visVivaKmPerSec(el.a*(1+el.e),el.a); }, expected:38.86, tol:0.01, unit:'km/s', source:'NASA fact sheet' },
+  { group:'Orbits', name:'Earth r @ 2024 perihelion', got:()=>keplerRows(jdTTAt('2024-01-03T00:39:00Z')).find(r=>r.name==='Earth')!.r, expected:0.983307, tol:1e-4, unit:'AU', source:'USNO' },
+  { group:'Orbits', name:'Earth v @ 2024 perihelion', got:()=>keplerRows(jdTTAt('2024-01-03T00:39:00Z')).find(r=>r.name==='Earth')!.v, expected:30.29, tol:0.01, unit:'km/s', source:'NASA fact sheet' },
+  { group:'Orbits', name:'Venus Δ 1992‑12‑20 0h TD', got:()=>geocentricEcliptic('Venus',2448976.5).delta, expected:0.910947, tol:5e-4, unit:'AU', source:'Meeus 33.a' },
+  { group:'Orbits', name:'Mars Δ @ 2003 closest approach', got:()=>mars2003().distAU, expected:0.37272, tol:5e-4, unit:'AU', source:'JPL Horizons' },
+  { group:'Orbits', name:'Mercury V @ α 90.17°', got:()=>apparentMagnitude('Mercury',0.413629222334,0.92644808718613,90.1662,J2000_TT) ?? NaN, expected:0.181, tol:0.005, unit:'mag', source:'Mallama & Hilton 2018 test values' },
+  { group:'Orbits', name:'Mercury V @ α 178.73°', got:()=>apparentMagnitude('Mercury',0.448947624811,0.56004973217883,178.7284,J2000_TT) ?? NaN, expected:7.167, tol:0.005, unit:'mag', source:'Mallama & Hilton 2018 test values' },
+  { group:'Orbits', name:'Mars V @ 2003 closest approach', got:()=>mars2003().mag ?? NaN, expected:-2.88, tol:0.1, unit:'mag', source:'Mallama & Hilton 2018' },
+  { group:'Orbits', name:'Mars opposition 2003', got:()=>{ const jd=jdTTAt(MARS_2003_ISO); const e=findPlanetEvents(['Mars'],jd-10,jd+10).find(x=>x.kind==='opposition'); return e? (jdUTCfromTT(e.jdTT)-jdAt('2003-08-28T17:58:00Z'))*1440 : NaN; }, expected:0, tol:10, unit:'min from 17:58 UTC', source:'USNO' },
+
+  // Moon, satellites, rotation
+  { group:'Moon', name:'Moon λ 1992‑04‑12 0h TD', got:()=>moonPosition(2448724.5).lonDeg, expected:133.162655, tol:0.001, unit:'deg', source:'Meeus 47.a' },
+  { group:'Moon', name:'Moon β 1992‑04‑12 0h TD', got:()=>moonPosition(2448724.5).latDeg, expected:-3.229126, tol:0.006, unit:'deg', source:'Meeus 47.a, truncated' },
+  { group:'Moon', name:'Moon Δ 1992‑04‑12 0h TD', got:()=>moonPosition(2448724.5).distKm, expected:368409.7, tol:30, unit:'km', source:'Meeus 47.a, truncated' },
+  { group:'Moon', name:'Moon illuminated fraction', got:()=>moonPhase(2448724.5).illuminated, expected:0.6786, tol:1e-3, source:'Meeus 48.a' },
+  { group:'Moon', name:'New Moon 1977‑02‑18', got:()=>(moonPhaseTime(2443190,0,1)-2443192.65118)*1440, expected:0, tol:2, unit:'min from 03:37:42 TD', source:'Meeus 49.a' },
+  { group:'Moon', name:'Moon subsolar lon @ full Moon', got:()=>{ const s=subsolarPoint('Moon',jdTTAt('2024-01-25T17:54:00Z')); return s? mod(s.lonDeg+180,360)-180 : NaN; }, expected:0, tol:8, unit:'deg', source:'IAU frame, libration' },
+  ...['Io','Europa','Ganymede','Callisto'].map((name,k):ReferenceCheck=>({ group:'Moon', name:`${name} X 1992‑12‑16 0h UT`, got:()=>galileanConfig(2448972.50068)[k].earth.X,
+    expected:[-3.44,7.44,1.24,7.08][k], tol:0.01, unit:'Jupiter radii', source:'Meeus 44.a' })),
+];
+
+export function runReferenceChecks(checks:ReferenceCheck[]=REFERENCE_CHECKS): ReferenceResult[] {
+  return checks.map(({got,...c})=>{
+    let value=NaN; try { value=got(); } catch { /* reported as a failure */ }
+    return { ...c, got:value, pass:Math.abs(value-c.expected)<=c.tol };
+  });
+}
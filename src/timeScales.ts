@@ -0,0 +1,146 @@
+// Time scales — UTC → TAI → TT
+// • 1972 onward: IERS leap‑second history (TAI−UTC), TT = TAI + 32.184 s
+// • Before 1972: ΔT = TT − UT1 (Espenak & Meeus polynomials), taking UTC ≈ UT1
+// • After the last announced leap‑second horizon: TT − UTC extrapolated with the ΔT trend,
+//   continuous with the table (future leap seconds are not predictable)
+
+export const TT_MINUS_TAI_SECONDS = 32.184;
+const JD_UNIX_EPOCH = 2440587.5;
+const jdOfISODate = (iso: string) => Date.parse(`${iso}T00:00:00Z`) / 86400000 + JD_UNIX_EPOCH;
+
+// [effective date (00:00 UTC), TAI−UTC seconds from that date]
+// Source: IERS Bulletin C / Leap_Second.dat. Add a row (and bump the horizon) when a new leap second is announced.
+export const LEAP_SECONDS: ReadonlyArray<readonly [string, number]> = [
+  ['1972-01-01', 10], ['1972-07-01', 11], ['1973-01-01', 12], ['1974-01-01', 13], ['1975-01-01', 14],
+  ['1976-01-01', 15], ['1977-01-01', 16], ['1978-01-01', 17], ['1979-01-01', 18], ['1980-01-01', 19],
+  ['1981-07-01', 20], ['1982-07-01', 21], ['1983-07-01', 22], ['1985-07-01', 23], ['1988-01-01', 24],
+  ['1990-01-01', 25], ['1991-01-01', 26], ['1992-07-01', 27], ['1993-07-01', 28], ['1994-07-01', 29],
+  ['1996-01-01', 30], ['1997-07-01', 31], ['1999-01-01', 32], ['2006-01-01', 33], ['2009-01-01', 34],
+  ['2012-07-01', 35], ['2015-07-01', 36], ['2017-01-01', 37],
+];
+// Date up to which IERS has announced there is no further leap second
+export const LEAP_SECONDS_KNOWN_UNTIL = '2027-01-01';
+
+const LEAP_TABLE_JD = LEAP_SECONDS.map(([iso, s]) => [jdOfISODate(iso), s] as const);
+const LEAP_TABLE_START_JD = LEAP_TABLE_JD[0][0];
+const LEAP_TABLE_END_JD = jdOfISODate(LEAP_SECONDS_KNOWN_UNTIL);
+
+export function decimalYearFromJD(jd: number) { return 2000 + (jd - 2451545.0) / 365.25; }
+
+// TAI − UTC (s) from the leap‑second table; null outside 1972 … horizon
+export function taiMinusUtcSeconds(jdUTC: number): number | null {
+  if (jdUTC < LEAP_TABLE_START_JD || jdUTC >= LEAP_TABLE_END_JD) return null;
+  let out = LEAP_TABLE_JD[0][1];
+  for (const [jd, s] of LEAP_TABLE_JD) { if (jdUTC >= jd) out = s; else break; }
+  return out;
+}
+
+// ΔT = TT − UT1 (s), Espenak & Meeus (NASA Five Millennium Canon), y = decimal year
+export function deltaTSeconds(y: number): number {
+  if (y < -500) { const u = (y - 1820) / 100; return -20 + 32 * u * u; }
+  if (y < 500) { const u = y / 100; return 10583.6 - 1014.41 * u + 33.78311 * u ** 2 - 5.952053 * u ** 3 - 0.1798452 * u ** 4 + 0.022174192 * u ** 5 + 0.0090316521 * u ** 6; }
+  if (y < 1600) { const u = (y - 1000) / 100; return 1574.2 - 556.01 * u + 71.23472 * u ** 2 + 0.319781 * u ** 3 - 0.8503463 * u ** 4 - 0.005050998 * u ** 5 + 0.0083572073 * u ** 6; }
+  if (y < 1700) { const t = y - 1600; return 120 - 0.9808 * t - 0.01532 * t ** 2 + t ** 3 / 7129; }
+  if (y < 1800) { const t = y - 1700; return 8.83 + 0.1603 * t - 0.0059285 * t ** 2 + 0.00013336 * t ** 3 - t ** 4 / 1174000; }
+  if (y < 1860) { const t = y - 1800; return 13.72 - 0.332447 * t + 0.0068612 * t ** 2 + 0.0041116 * t ** 3 - 0.00037436 * t ** 4 + 0.0000121272 * t ** 5 - 0.0000001699 * t ** 6 + 0.000000000875 * t ** 7; }
+  if (y < 1900) { const t = y - 1860; return 7.62 + 0.5737 * t - 0.251754 * t ** 2 + 0.01680668 * t ** 3 - 0.0004473624 * t ** 4 + t ** 5 / 233174; }
+  if (y < 1920) { const t = y - 1900; return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4; }
+  if (y < 1941) { const t = y - 1920; return 21.20 + 0.84493 * t - 0.076100 * t ** 2 + 0.0020936 * t ** 3; }
+  if (y < 1961) { const t = y - 1950; return 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547; }
+  if (y < 1986) { const t = y - 1975; return 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718; }
+  if (y < 2005) { const t = y - 2000; return 63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3 + 0.000651814 * t ** 4 + 0.00002373599 * t ** 5; }
+  if (y < 2050) { const t = y - 2000; return 62.92 + 0.32217 * t + 0.005589 * t ** 2; }
+  if (y < 2150) { return -20 + 32 * ((y - 1820) / 100) ** 2 - 0.5628 * (2150 - y); }
+  const u = (y - 1820) / 100; return -20 + 32 * u * u;
+}
+
+// TT − UTC (s) for any epoch
+export function ttMinusUtcSeconds(jdUTC: number): number {
+  const tai = taiMinusUtcSeconds(jdUTC);
+  if (tai !== null) return tai + TT_MINUS_TAI_SECONDS;
+  if (jdUTC < LEAP_TABLE_START_JD) return deltaTSeconds(decimalYearFromJD(jdUTC));
+  const last = LEAP_TABLE_JD[LEAP_TABLE_JD.length - 1][1] + TT_MINUS_TAI_SECONDS;
+  return last + deltaTSeconds(decimalYearFromJD(jdUTC)) - deltaTSeconds(decimalYearFromJD(LEAP_TABLE_END_JD));
+}
+
+export function jdTTfromUTC(jdUTC: number) { return jdUTC + ttMinusUtcSeconds(jdUTC) / 86400; }
+
+// Inverse of an offset: find jdUTC such that jdUTC + offset(jdUTC)/86400 = target
+function jdUTCfromOffset(target: number, offsetSeconds: (jdUTC: number) => number) {
+  let jd = target;
+  for (let k = 0; k < 4; k++) jd = target - offsetSeconds(jd) / 86400;
+  return jd;
+}
+export function jdUTCfromTT(jdTT: number) { return jdUTCfromOffset(jdTT, ttMinusUtcSeconds); }
+
+// ===== Other scales =====
+export const GPS_MINUS_TAI_SECONDS = -19;
+const GPS_EPOCH_JD = jdOfISODate('1980-01-06');
+const SECONDS_PER_GPS_WEEK = 604800;
+
+// TDB − TT (s), periodic terms ≤ 1.7 ms (Explanatory Supplement / USNO Circular 179)
+export function tdbMinusTtSeconds(jdTT: number) {
+  const g = ((357.53 + 0.98560028 * (jdTT - 2451545.0)) * Math.PI) / 180;
+  return 0.001657 * Math.sin(g) + 0.000014 * Math.sin(2 * g);
+}
+// GMST (hours), IAU 1982 expression (Meeus 12.4); UT1 ≈ UTC
+export function gmstHours(jdUT1: number) {
+  const T = (jdUT1 - 2451545.0) / 36525;
+  const deg = 280.46061837 + 360.98564736629 * (jdUT1 - 2451545.0) + 0.000387933 * T * T - (T * T * T) / 38710000;
+  return (((deg % 360) + 360) % 360) / 15;
+}
+// Continuous GPS seconds since 1980‑01‑06 00:00 UTC (no leap seconds), plus week / time of week
+export function gpsTime(jdUTC: number) {
+  const tai = (jdUTC - GPS_EPOCH_JD) * 86400 + (ttMinusUtcSeconds(jdUTC) - TT_MINUS_TAI_SECONDS);
+  const seconds = tai + GPS_MINUS_TAI_SECONDS;
+  const week = Math.floor(seconds / SECONDS_PER_GPS_WEEK);
+  return { seconds, week, tow: seconds - week * SECONDS_PER_GPS_WEEK };
+}
+
+export type TimeScaleValues = {
+  jdUTC: number; jdTAI: number; jdTT: number; jdTDB: number; mjdUTC: number;
+  unixSeconds: number; gpsSeconds: number; gpsWeek: number; gpsTow: number; gmstHours: number;
+};
+export function timeScalesAt(jdUTC: number): TimeScaleValues {
+  const tt = ttMinusUtcSeconds(jdUTC); const jdTT = jdUTC + tt / 86400; const gps = gpsTime(jdUTC);
+  return {
+    jdUTC, jdTAI: jdUTC + (tt - TT_MINUS_TAI_SECONDS) / 86400, jdTT, jdTDB: jdTT + tdbMinusTtSeconds(jdTT) / 86400,
+    mjdUTC: jdUTC - 2400000.5, unixSeconds: (jdUTC - JD_UNIX_EPOCH) * 86400,
+    gpsSeconds: gps.seconds, gpsWeek: gps.week, gpsTow: gps.tow, gmstHours: gmstHours(jdUTC),
+  };
+}
+
+// Calendar rendering of a JD in any uniform scale ("2024-01-01T00:01:09.184")
+export function jdToCalendarString(jd: number) {
+  const ms = Math.round((jd - JD_UNIX_EPOCH) * 86400000);
+  return Number.isFinite(ms) && Math.abs(ms) < 8.64e15 ? new Date(ms).toISOString().replace('Z', '') : '—';
+}
+function calendarStringToJD(text: string): number | null {
+  const t = text.trim().replace(/\s*(UTC|TAI|TT|TDB|Z)$/i, '').replace(' ', 'T');
+  if (!/^[+-]?\d{4,6}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/.test(t)) return null;
+  const ms = Date.parse(t.includes('T') ? `${t}Z` : `${t}T00:00:00Z`);
+  return Number.isFinite(ms) ? ms / 86400000 + JD_UNIX_EPOCH : null;
+}
+
+// Converter input scales (sidereal time is output‑only: it repeats every sidereal day)
+export const CONVERTIBLE_SCALES = ['UTC', 'TAI', 'TT', 'TDB', 'GPS', 'GPSWeek', 'Unix', 'JD', 'JD_TT', 'MJD'] as const;
+export type ConvertibleScale = (typeof CONVERTIBLE_SCALES)[number];
+// Parse a value expressed in `scale` and return the equivalent JD(UTC), or null if it does not parse
+export function parseTimeScale(scale: ConvertibleScale, text: string): number | null {
+  const num = Number(text.trim()); const isNum = text.trim() !== '' && Number.isFinite(num);
+  switch (scale) {
+    case 'UTC': return calendarStringToJD(text);
+    case 'TAI': { const jd = calendarStringToJD(text); return jd === null ? null : jdUTCfromOffset(jd, j => ttMinusUtcSeconds(j) - TT_MINUS_TAI_SECONDS); }
+    case 'TT': { const jd = calendarStringToJD(text); return jd === null ? null : jdUTCfromTT(jd); }
+    case 'TDB': { const jd = calendarStringToJD(text); return jd === null ? null : jdUTCfromOffset(jd, j => { const tt = ttMinusUtcSeconds(j); return tt + tdbMinusTtSeconds(j + tt / 86400); }); }
+    case 'GPS': return isNum ? jdUTCfromOffset(GPS_EPOCH_JD + num / 86400, j => ttMinusUtcSeconds(j) - TT_MINUS_TAI_SECONDS + GPS_MINUS_TAI_SECONDS) : null;
+    case 'GPSWeek': {
+      const m = /^\s*(\d+)\s*[:/ ]\s*(\d+(\.\d+)?)\s*$/.exec(text); if (!m) return null;
+      return parseTimeScale('GPS', String(Number(m[1]) * SECONDS_PER_GPS_WEEK + Number(m[2])));
+    }
+    case 'Unix': return isNum ? num / 86400 + JD_UNIX_EPOCH : null;
+    case 'JD': return isNum ? num : null;
+    case 'JD_TT': return isNum ? jdUTCfromTT(num) : null;
+    case 'MJD': return isNum ? num + 2400000.5 : null;
+  }
+}
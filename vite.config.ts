@@ -1,8 +1,17 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-base: "/cosmic-clock-app/",
+export default defineConfig(({ mode }) => {
+  // SPICE backend for `npm run dev`; defaults to the local stand-in (npm run mock:spice)
+  const env = loadEnv(mode, '.', '')
+  return {
+    plugins: [react()],
+    base: "/cosmic-clock-app/",
+    server: {
+      proxy: {
+        '/api/spice': { target: env.SPICE_URL || 'http://localhost:8787', changeOrigin: true },
+      },
+    },
+  }
 })
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vite'
+
+// Node build of the `cosmic-clock` CLI and API (npm run build:node → dist-node/)
+export default defineConfig({
+  build: {
+    ssr: true,
+    copyPublicDir: false,
+    outDir: 'dist-node',
+    target: 'node20',
+    rollupOptions: {
+      input: { 'cosmic-clock': 'cli/cosmic-clock.ts', index: 'src/cosmicClock.ts' },
+      output: { entryFileNames: '[name].js' },
+    },
+  },
+})